@@ -0,0 +1,228 @@
+import './column-mapping.css'
+import { CsvTable } from './lib/GraphData'
+
+export type CsvFileKind = 'nodes' | 'edges'
+
+/**
+ * Maps each column role (`id`, `type`, ...) to the name of the CSV column that provides it, or to
+ * an empty string if the role is not provided by any column.
+ */
+export type ColumnMapping = { [role: string]: string }
+
+interface ColumnRole {
+  role: string
+  title: string
+  required: boolean
+  /** Header names that are assigned to the role automatically, in order of preference */
+  candidates: string[]
+}
+
+const COLUMN_ROLES: { [kind in CsvFileKind]: ColumnRole[] } = {
+  nodes: [
+    { role: 'id', title: 'Id', required: true, candidates: ['id', 'iri', 'uri', 'key'] },
+    { role: 'type', title: 'Type', required: true, candidates: ['type', 'class', 'category'] },
+    { role: 'label', title: 'Label', required: false, candidates: ['label', 'name', 'title'] },
+    { role: 'parent', title: 'Parent', required: false, candidates: ['parent', 'parent_id'] }
+  ],
+  edges: [
+    { role: 'source', title: 'Source', required: true, candidates: ['source', 'from', 'subject'] },
+    { role: 'target', title: 'Target', required: true, candidates: ['target', 'to', 'object'] },
+    {
+      role: 'predicate',
+      title: 'Edge Predicate',
+      required: false,
+      candidates: ['predicate', 'type', 'label', 'relation', 'relationship']
+    }
+  ]
+}
+
+const STORAGE_KEY_PREFIX = 'csv-column-mapping'
+
+/**
+ * The number of data rows that are shown in the preview.
+ */
+const PREVIEW_ROWS = 5
+
+/**
+ * Lets the user assign the columns of the given CSV file to the roles the importer needs.
+ *
+ * The dialog is skipped if the file already uses the expected column names. Confirmed mappings
+ * are remembered per header signature and pre-selected when a file with the same header is loaded
+ * again.
+ * @returns The table with the role columns filled in, or `null` if the user canceled.
+ */
+export async function mapCsvColumns(table: CsvTable, kind: CsvFileKind): Promise<CsvTable | null> {
+  const storedMapping = loadMapping(table.fields, kind)
+  const usesExpectedNames = COLUMN_ROLES[kind]
+    .filter((role) => role.required)
+    .every((role) => table.fields.includes(role.role))
+  if (!storedMapping && usesExpectedNames) {
+    return applyColumnMapping(table, detectMapping(table.fields, kind))
+  }
+
+  const mapping = await showColumnMappingDialog(
+    table,
+    kind,
+    storedMapping || detectMapping(table.fields, kind)
+  )
+  if (!mapping) {
+    return null
+  }
+  storeMapping(table.fields, kind, mapping)
+  return applyColumnMapping(table, mapping)
+}
+
+/**
+ * Returns a copy of the table in which each row additionally holds the mapped values under the
+ * role names. The original columns are kept as part of the record.
+ */
+export function applyColumnMapping(table: CsvTable, mapping: ColumnMapping): CsvTable {
+  const roles = Object.keys(mapping)
+  const rows = table.rows.map((row) => {
+    const mappedRow = { ...row }
+    for (const role of roles) {
+      const column = mapping[role]
+      if (column) {
+        mappedRow[role] = row[column]
+      } else {
+        delete mappedRow[role]
+      }
+    }
+    return mappedRow
+  })
+  const fields = table.fields
+    .filter((field) => !roles.includes(field))
+    .concat(roles.filter((role) => mapping[role]))
+  return { ...table, fields, rows }
+}
+
+/**
+ * Assigns each role the first column whose name matches one of the role's candidates.
+ */
+export function detectMapping(fields: string[], kind: CsvFileKind): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const assigned = new Set<string>()
+  for (const { role, candidates } of COLUMN_ROLES[kind]) {
+    const column = candidates
+      .map((candidate) => fields.find((field) => field.trim().toLowerCase() === candidate))
+      .find((field) => field !== undefined && !assigned.has(field))
+    mapping[role] = column || ''
+    if (column) {
+      assigned.add(column)
+    }
+  }
+  return mapping
+}
+
+function getStorageKey(fields: string[], kind: CsvFileKind): string {
+  return `${STORAGE_KEY_PREFIX}:${kind}:${JSON.stringify(fields)}`
+}
+
+function loadMapping(fields: string[], kind: CsvFileKind): ColumnMapping | null {
+  try {
+    const stored = localStorage.getItem(getStorageKey(fields, kind))
+    const mapping = stored ? (JSON.parse(stored) as ColumnMapping) : null
+    // ignore stored mappings that refer to columns that do not exist (anymore)
+    if (mapping && Object.values(mapping).every((column) => !column || fields.includes(column))) {
+      return mapping
+    }
+  } catch (e) {
+    // local storage may be unavailable or contain garbage, both mean there is no mapping
+  }
+  return null
+}
+
+function storeMapping(fields: string[], kind: CsvFileKind, mapping: ColumnMapping): void {
+  try {
+    localStorage.setItem(getStorageKey(fields, kind), JSON.stringify(mapping))
+  } catch (e) {
+    // remembering the mapping is a convenience only
+  }
+}
+
+/**
+ * Shows a preview of the first rows and a selection of the column for each role.
+ * @returns The chosen mapping or `null` if the dialog was canceled.
+ */
+function showColumnMappingDialog(
+  table: CsvTable,
+  kind: CsvFileKind,
+  initialMapping: ColumnMapping
+): Promise<ColumnMapping | null> {
+  const roles = COLUMN_ROLES[kind]
+
+  return new Promise((resolve) => {
+    const dialog = document.createElement('dialog')
+    dialog.id = 'column-mapping-dialog'
+    dialog.innerHTML = `
+<div class="user-input-title">
+  Column Mapping
+</div>
+<form>
+  <p>Assign the columns of <b class="column-mapping-file"></b> (${kind}):</p>
+  <div class="column-mapping-roles"></div>
+  <div class="column-mapping-preview">
+    <table></table>
+  </div>
+  <div class="column-mapping-actions">
+    <button id="confirm-btn" value="">Import</button>
+    <button value="cancel" formmethod="dialog">Cancel</button>
+  </div>
+</form>
+  `
+    dialog.querySelector('.column-mapping-file')!.textContent = table.fileName
+
+    const selects = new Map<string, HTMLSelectElement>()
+    const rolesContainer = dialog.querySelector('.column-mapping-roles')!
+    for (const { role, title, required } of roles) {
+      const label = document.createElement('label')
+      label.textContent = required ? `${title} *` : title
+      const select = document.createElement('select')
+      select.name = role
+      if (!required) {
+        select.add(new Option('(none)', ''))
+      }
+      for (const field of table.fields) {
+        select.add(new Option(field, field))
+      }
+      select.value = initialMapping[role] || (required ? table.fields[0] || '' : '')
+      label.appendChild(select)
+      rolesContainer.appendChild(label)
+      selects.set(role, select)
+    }
+
+    const previewTable = dialog.querySelector('.column-mapping-preview table') as HTMLTableElement
+    const headerRow = previewTable.createTHead().insertRow()
+    for (const field of table.fields) {
+      const cell = document.createElement('th')
+      cell.textContent = field
+      headerRow.appendChild(cell)
+    }
+    const body = previewTable.createTBody()
+    for (const row of table.rows.slice(0, PREVIEW_ROWS)) {
+      const tableRow = body.insertRow()
+      for (const field of table.fields) {
+        tableRow.insertCell().textContent = row[field] ?? ''
+      }
+    }
+
+    let mapping: ColumnMapping | null = null
+    dialog.querySelector('#confirm-btn')!.addEventListener('click', (e) => {
+      e.preventDefault() // do not reload the page on form submit
+      mapping = {}
+      for (const [role, select] of selects) {
+        mapping[role] = select.value
+      }
+      dialog.close()
+    })
+
+    dialog.addEventListener('close', () => {
+      resolve(mapping)
+      document.body.removeChild(dialog)
+    })
+
+    document.body.appendChild(dialog)
+
+    dialog.showModal()
+  })
+}
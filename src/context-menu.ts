@@ -39,6 +39,7 @@ import {
   Size,
 } from 'yfiles'
 import { ContextMenu } from './lib/ContextMenu'
+import { isPinned, setPinned } from './node-pinning'
 import './context-menu.css'
 
 export function initializeContextMenu(graphComponent: GraphComponent): void {
@@ -112,6 +113,12 @@ function populateContextMenu(
       })
       graphComponent.zoomToAnimated(targetRect.getEnlarged(100))
     })
+    // pinned nodes keep their position in layouts
+    const nodes = selectedNodes.toArray()
+    const allPinned = nodes.every(isPinned)
+    contextMenu.addMenuItem(allPinned ? 'Unpin' : 'Pin', () =>
+      setPinned(nodes, !allPinned)
+    )
   } else {
     // no node has been hit
     contextMenu.addMenuItem('Fit Graph Bounds', () =>
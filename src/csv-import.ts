@@ -0,0 +1,98 @@
+import type { CsvImportRequest, CsvImportResponse } from './csv-import.worker'
+import { ValidationIssue, ValidationResolution } from './lib/CsvValidation'
+import { CsvTable, GraphData } from './lib/GraphData'
+import { showProgressDialog } from './progress-dialog'
+
+/**
+ * Runs the parsing and validation of CSV imports in a web worker, so that large files do not
+ * block the page. Each request shows a progress dialog that lets the user cancel it, which
+ * terminates the worker.
+ */
+export class CsvImportWorker {
+  private worker: Worker | null = new Worker(new URL('./csv-import.worker.ts', import.meta.url), {
+    type: 'module'
+  })
+
+  /**
+   * Parses a CSV file with header row.
+   * @returns The parsed table or `null` if the user canceled.
+   */
+  async parse(file: File): Promise<CsvTable | null> {
+    const response = await this.send({ type: 'parse', file }, `Reading ${file.name}`)
+    return response && response.type === 'parsed' ? response.table : null
+  }
+
+  /**
+   * Collects the problems in the given tables.
+   * @returns The issues or `null` if the user canceled.
+   */
+  async findIssues(nodesTable: CsvTable, edgesTable: CsvTable): Promise<ValidationIssue[] | null> {
+    const response = await this.send({ type: 'validate', nodesTable, edgesTable }, 'Validating')
+    return response && response.type === 'validated' ? response.issues : null
+  }
+
+  /**
+   * Prepares the node and edge records of the tables that have been passed to the preceding
+   * {@link CsvImportWorker.findIssues} call.
+   * @returns The records or `null` if the user canceled.
+   */
+  async resolveIssues(
+    resolution: Exclude<ValidationResolution, 'abort'>
+  ): Promise<GraphData | null> {
+    const response = await this.send({ type: 'resolve', resolution }, 'Preparing graph data')
+    return response && response.type === 'resolved' ? response.data : null
+  }
+
+  dispose(): void {
+    this.worker?.terminate()
+    this.worker = null
+  }
+
+  private send(request: CsvImportRequest, title: string): Promise<CsvImportResponse | null> {
+    const worker = this.worker
+    if (!worker) {
+      return Promise.resolve(null)
+    }
+
+    return new Promise((resolve, reject) => {
+      const progress = showProgressDialog(title, () => {
+        this.dispose()
+        resolve(null)
+      })
+      progress.update(`${title}...`)
+
+      worker.onmessage = (event: MessageEvent<CsvImportResponse>) => {
+        const response = event.data
+        if (response.type === 'progress') {
+          progress.update(`${response.rows.toLocaleString()} rows read`, response.fraction)
+          return
+        }
+        progress.close()
+        if (response.type === 'error') {
+          reject(new Error(response.message))
+        } else {
+          resolve(response)
+        }
+      }
+      worker.onerror = (event) => {
+        progress.close()
+        reject(new Error(event.message))
+      }
+
+      worker.postMessage(request)
+    })
+  }
+}
+
+/**
+ * Parses the given CSV file in a worker.
+ * @returns The parsed table or `null` if the user canceled.
+ */
+export async function parseCsvFile(file: File): Promise<CsvTable | null> {
+  const worker = new CsvImportWorker()
+  try {
+    return await worker.parse(file)
+  } finally {
+    worker.dispose()
+  }
+}
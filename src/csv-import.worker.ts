@@ -0,0 +1,100 @@
+import Papa from 'papaparse'
+import {
+  findIssues,
+  resolveIssues,
+  ValidationIssue,
+  ValidationResolution
+} from './lib/CsvValidation'
+import { CsvTable, GraphData } from './lib/GraphData'
+
+/**
+ * The requests the CSV import worker handles. `resolve` refers to the tables of the preceding
+ * `validate` request, so that they need not be transferred again.
+ */
+export type CsvImportRequest =
+  | { type: 'parse'; file: File }
+  | { type: 'validate'; nodesTable: CsvTable; edgesTable: CsvTable }
+  | { type: 'resolve'; resolution: Exclude<ValidationResolution, 'abort'> }
+
+export type CsvImportResponse =
+  | { type: 'progress'; rows: number; fraction: number }
+  | { type: 'parsed'; table: CsvTable }
+  | { type: 'validated'; issues: ValidationIssue[] }
+  | { type: 'resolved'; data: GraphData }
+  | { type: 'error'; message: string }
+
+/**
+ * The number of characters that are parsed between two progress reports.
+ */
+const CHUNK_SIZE = 1024 * 1024
+
+let validatedTables: { nodesTable: CsvTable; edgesTable: CsvTable } | null = null
+
+self.addEventListener('message', (event: MessageEvent<CsvImportRequest>) => {
+  const request = event.data
+  try {
+    switch (request.type) {
+      case 'parse':
+        parse(request.file)
+        break
+      case 'validate':
+        validatedTables = { nodesTable: request.nodesTable, edgesTable: request.edgesTable }
+        post({ type: 'validated', issues: findIssues(request.nodesTable, request.edgesTable) })
+        break
+      case 'resolve':
+        if (!validatedTables) {
+          throw new Error('There are no validated tables to resolve')
+        }
+        post({
+          type: 'resolved',
+          data: resolveIssues(
+            validatedTables.nodesTable,
+            validatedTables.edgesTable,
+            request.resolution
+          )
+        })
+        break
+    }
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message })
+  }
+})
+
+function post(response: CsvImportResponse): void {
+  self.postMessage(response)
+}
+
+/**
+ * Parses the file chunk by chunk and reports the number of rows after each chunk.
+ */
+function parse(file: File): void {
+  let fields: string[] = []
+  const rows: { [column: string]: string }[] = []
+  const errors: CsvTable['errors'] = []
+
+  Papa.parse<{ [column: string]: string }>(file, {
+    header: true,
+    chunkSize: CHUNK_SIZE,
+    chunk: (results) => {
+      const chunkOffset = rows.length
+      if (fields.length === 0) {
+        fields = results.meta.fields || []
+      }
+      for (const row of results.data) {
+        rows.push(row)
+      }
+      for (const { type, row, message } of results.errors) {
+        // field count errors are counted from the start of the file, quote errors per chunk
+        const index = row === undefined || type === 'FieldMismatch' ? row : row + chunkOffset
+        errors.push({ row: index, message })
+      }
+      post({
+        type: 'progress',
+        rows: rows.length,
+        fraction: file.size > 0 ? Math.min(1, results.meta.cursor / file.size) : 1
+      })
+    },
+    complete: () => post({ type: 'parsed', table: { fileName: file.name, fields, rows, errors } }),
+    error: (error) => post({ type: 'error', message: error.message })
+  })
+}
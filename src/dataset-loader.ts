@@ -0,0 +1,162 @@
+/**
+ * The files a dataset is loaded from, as paths on the origin the app is served from. Nodes and
+ * edges CSV files are given together, all other kinds on their own.
+ */
+export interface DatasetSource {
+  nodes?: string
+  edges?: string
+  project?: string
+  graphml?: string
+  triples?: string
+  rdf?: string
+}
+
+export type DatasetFiles = { [kind in keyof DatasetSource]?: File }
+
+/**
+ * An entry of the dataset manifest.
+ */
+export interface DatasetManifestEntry extends DatasetSource {
+  name: string
+  description?: string
+}
+
+const SOURCE_KINDS: (keyof DatasetSource)[] = [
+  'nodes',
+  'edges',
+  'project',
+  'graphml',
+  'triples',
+  'rdf'
+]
+
+/**
+ * The manifest that lists the datasets in the `public/data` directory.
+ */
+const MANIFEST_PATH = `${import.meta.env.BASE_URL}data/datasets.json`
+
+/**
+ * Returns the dataset given by the URL query parameters, e.g.
+ * `?nodes=/data/a.csv&edges=/data/b.csv` or `?graphml=/data/c.graphml`, or `null` if there is none.
+ */
+export function getDatasetSourceFromUrl(): DatasetSource | null {
+  const parameters = new URLSearchParams(window.location.search)
+  const source: DatasetSource = {}
+  for (const kind of SOURCE_KINDS) {
+    const path = parameters.get(kind)
+    if (path) {
+      source[kind] = path
+    }
+  }
+  return Object.keys(source).length > 0 ? source : null
+}
+
+/**
+ * Replaces the dataset parameters of the current URL, so that the loaded dataset can be
+ * bookmarked and linked.
+ */
+export function setDatasetSourceInUrl(source: DatasetSource): void {
+  const url = new URL(window.location.href)
+  for (const kind of SOURCE_KINDS) {
+    const path = source[kind]
+    if (path) {
+      url.searchParams.set(kind, path)
+    } else {
+      url.searchParams.delete(kind)
+    }
+  }
+  window.history.replaceState(null, '', url)
+}
+
+/**
+ * Fetches the files of the given dataset.
+ */
+export async function fetchDatasetFiles(source: DatasetSource): Promise<DatasetFiles> {
+  if (!source.nodes !== !source.edges) {
+    throw new Error('The nodes and edges files must be given together')
+  }
+  const files: DatasetFiles = {}
+  for (const kind of SOURCE_KINDS) {
+    const path = source[kind]
+    if (path) {
+      files[kind] = await fetchDataFile(path)
+    }
+  }
+  return files
+}
+
+/**
+ * Fills the given select with the datasets of the manifest. The select is hidden if there is no
+ * manifest.
+ * @param onPick Called with the dataset the user chose.
+ */
+export async function initializeDatasetPicker(
+  select: HTMLSelectElement,
+  onPick: (dataset: DatasetManifestEntry) => void
+): Promise<void> {
+  const datasets = await loadManifest()
+  select.hidden = datasets.length === 0
+  select.innerHTML = ''
+  select.add(new Option('Datasets...', ''))
+  datasets.forEach((dataset, index) => {
+    const option = new Option(dataset.name, String(index))
+    option.title = dataset.description || ''
+    select.add(option)
+  })
+
+  select.addEventListener('change', () => {
+    const dataset = datasets[Number(select.value)]
+    select.value = ''
+    if (dataset) {
+      onPick(dataset)
+    }
+  })
+}
+
+/**
+ * Reads the dataset manifest. Paths in the manifest are relative to the manifest itself.
+ * @returns The datasets or an empty list if there is no (valid) manifest.
+ */
+async function loadManifest(): Promise<DatasetManifestEntry[]> {
+  let manifest: { datasets?: DatasetManifestEntry[] }
+  try {
+    manifest = JSON.parse(await (await fetchDataFile(MANIFEST_PATH)).text())
+  } catch (error) {
+    // the manifest is optional
+    return []
+  }
+  const manifestUrl = new URL(MANIFEST_PATH, window.location.href)
+  return (manifest.datasets || [])
+    .filter((dataset) => dataset && dataset.name)
+    .map((dataset) => {
+      const resolved: DatasetManifestEntry = {
+        name: dataset.name,
+        description: dataset.description
+      }
+      for (const kind of SOURCE_KINDS) {
+        const path = dataset[kind]
+        if (path) {
+          resolved[kind] = new URL(path, manifestUrl).pathname
+        }
+      }
+      return resolved
+    })
+}
+
+/**
+ * Fetches a data file from the origin the app is served from, e.g. from Vite's `public/`
+ * directory.
+ * @param path An absolute or relative path, e.g. `/data/nodes.csv`.
+ */
+async function fetchDataFile(path: string): Promise<File> {
+  const url = new URL(path, window.location.href)
+  if (url.origin !== window.location.origin) {
+    throw new Error(`Only files from ${window.location.origin} can be loaded: ${path}`)
+  }
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Could not load ${path}: ${response.status} ${response.statusText}`)
+  }
+  const fileName = decodeURIComponent(url.pathname.split('/').pop() || 'data')
+  return new File([await response.blob()], fileName)
+}
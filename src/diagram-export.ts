@@ -42,15 +42,17 @@ export function exportDiagram(
 
   graphComponent.updateContentRect(30)
   const exportArea = graphComponent.contentRect
+  // render with the same projection as the view
+  const projection = graphComponent.projection
   switch (format) {
     case 'svg':
-      ExportSupport.saveSvg(graph, exportArea, 1)
+      ExportSupport.saveSvg(graph, exportArea, 1, projection)
       break
     case 'png':
-      ExportSupport.savePng(graph, exportArea, 1)
+      ExportSupport.savePng(graph, exportArea, 1, projection)
       break
     case 'pdf':
-      ExportSupport.savePdf(graph, exportArea, 1)
+      ExportSupport.savePdf(graph, exportArea, 1, projection)
       break
   }
 }
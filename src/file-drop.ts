@@ -0,0 +1,131 @@
+import './file-drop.css'
+import Papa from 'papaparse'
+import { detectMapping } from './column-mapping'
+import { FileIoSupport } from './lib/FileIoSupport'
+import { OWL_FILE_EXTENSIONS } from './owl-import'
+import { RDF_FILE_EXTENSIONS } from './rdf-import'
+import { isTriplesHeader, TRIPLES_FILE_EXTENSIONS } from './triples-import'
+
+export type DroppedFileKind = 'nodes' | 'edges' | 'triples' | 'graphml' | 'rdf' | 'unknown'
+
+export interface DroppedFile {
+  file: File
+  kind: DroppedFileKind
+}
+
+/**
+ * The number of bytes that are read to detect the kind of a file.
+ */
+const SNIFF_LENGTH = 64 * 1024
+
+let statusElement: HTMLElement | null = null
+
+/**
+ * Lets the user drop files on the given container. While files are dragged over the container, an
+ * overlay is shown. Dropped files are classified and passed to the given callback.
+ */
+export function initializeFileDrop(
+  container: HTMLElement,
+  onDrop: (files: DroppedFile[]) => Promise<void>
+): void {
+  const overlay = document.createElement('div')
+  overlay.className = 'file-drop-overlay'
+  overlay.innerHTML = `
+<div class="file-drop-message">
+  Drop nodes and edges CSV, triples CSV/TSV, GraphML or RDF/OWL files to import them
+</div>
+  `
+  container.appendChild(overlay)
+
+  statusElement = document.createElement('div')
+  statusElement.className = 'file-drop-status'
+  container.appendChild(statusElement)
+
+  // dragenter and dragleave are also dispatched for the child elements
+  let dragDepth = 0
+  const hasFiles = (event: DragEvent) => !!event.dataTransfer?.types.includes('Files')
+
+  container.addEventListener('dragenter', (event) => {
+    if (hasFiles(event)) {
+      event.preventDefault()
+      dragDepth++
+      overlay.classList.add('file-drop-overlay--visible')
+    }
+  })
+  container.addEventListener('dragover', (event) => {
+    if (hasFiles(event)) {
+      event.preventDefault()
+      event.dataTransfer!.dropEffect = 'copy'
+    }
+  })
+  container.addEventListener('dragleave', (event) => {
+    if (hasFiles(event) && --dragDepth <= 0) {
+      dragDepth = 0
+      overlay.classList.remove('file-drop-overlay--visible')
+    }
+  })
+  container.addEventListener('drop', async (event) => {
+    if (!hasFiles(event)) {
+      return
+    }
+    event.preventDefault()
+    dragDepth = 0
+    overlay.classList.remove('file-drop-overlay--visible')
+
+    const files = Array.from(event.dataTransfer!.files)
+    const kinds = await Promise.all(files.map(detectFileKind))
+    await onDrop(files.map((file, i) => ({ file, kind: kinds[i] })))
+  })
+}
+
+/**
+ * Shows a hint about the state of the import in the corner of the graph component, or hides it
+ * if the message is `null`.
+ */
+export function showImportStatus(message: string | null): void {
+  if (statusElement) {
+    statusElement.textContent = message || ''
+    statusElement.classList.toggle('file-drop-status--visible', !!message)
+  }
+}
+
+/**
+ * Determines the kind of the given file from its extension and, for tables and generic XML
+ * files, from its first line or root element.
+ */
+export async function detectFileKind(file: File): Promise<DroppedFileKind> {
+  const extension = FileIoSupport.getFileExtension(file)
+  if (!extension) {
+    return 'unknown'
+  }
+  if (extension === 'graphml') {
+    return 'graphml'
+  }
+  if (extension === 'xml') {
+    const text = await file.slice(0, SNIFF_LENGTH).text()
+    return /<graphml[\s>]/.test(text) ? 'graphml' : 'rdf'
+  }
+  if (RDF_FILE_EXTENSIONS.includes(extension) || OWL_FILE_EXTENSIONS.includes(extension)) {
+    return 'rdf'
+  }
+  if (TRIPLES_FILE_EXTENSIONS.includes(extension)) {
+    return detectTableKind(await file.slice(0, SNIFF_LENGTH).text())
+  }
+  return 'unknown'
+}
+
+function detectTableKind(text: string): DroppedFileKind {
+  const header = Papa.parse<string[]>(text, { header: false, preview: 1 }).data[0] || []
+  if (isTriplesHeader(header)) {
+    return 'triples'
+  }
+  const edgeMapping = detectMapping(header, 'edges')
+  if (edgeMapping.source && edgeMapping.target) {
+    return 'edges'
+  }
+  if (detectMapping(header, 'nodes').id) {
+    return 'nodes'
+  }
+  // a table with three unnamed columns is most likely a triple table without header
+  return header.length === 3 ? 'triples' : 'unknown'
+}
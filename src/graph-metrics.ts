@@ -0,0 +1,367 @@
+import './graph-metrics.css'
+import { IGraph, INode } from 'yfiles'
+import type { MetricsRequest, MetricsResponse } from './graph-metrics.worker'
+import { NodeData } from './lib/GraphData'
+import { hashStrings } from './lib/SeededRandom'
+import { NodeStyleProperties } from './lib/StyleRules'
+import { showProgressDialog } from './progress-dialog'
+
+export type GraphMetric =
+  | 'degree'
+  | 'in-degree'
+  | 'out-degree'
+  | 'page-rank'
+  | 'betweenness'
+  | 'closeness'
+
+/**
+ * The metrics that are computed in a web worker, since they take long for large graphs.
+ */
+export type CentralityMetric = Extract<GraphMetric, 'page-rank' | 'betweenness' | 'closeness'>
+
+export interface MetricSettings {
+  /** The metric that determines the node size */
+  sizeMetric: GraphMetric | 'none'
+  /** The metric that determines the node color */
+  colorMetric: GraphMetric | 'none'
+  /** The size of the nodes with the lowest value */
+  minSize: number
+  /** The size of the nodes with the highest value */
+  maxSize: number
+  /** The color of the nodes with the lowest value */
+  lowColor: string
+  /** The color of the nodes with the highest value */
+  highColor: string
+}
+
+/**
+ * The range of the values of a metric and the colors of the gradient, shown in the legend.
+ */
+export interface MetricGradient {
+  title: string
+  min: number
+  max: number
+  lowColor: string
+  highColor: string
+}
+
+const METRIC_NAMES: { [metric in GraphMetric]: string } = {
+  degree: 'Degree',
+  'in-degree': 'In-Degree',
+  'out-degree': 'Out-Degree',
+  'page-rank': 'PageRank',
+  betweenness: 'Betweenness',
+  closeness: 'Closeness'
+}
+
+const CENTRALITY_METRICS: CentralityMetric[] = ['page-rank', 'betweenness', 'closeness']
+
+/**
+ * The values of the computed metrics by node id, so that they apply to the master nodes as well as
+ * to the nodes of the folding view. They are kept until the graph changes, so that switching back
+ * to a metric does not compute it again.
+ */
+let metricValues = new Map<GraphMetric, Map<string, number>>()
+let metricRanges = new Map<GraphMetric, [number, number]>()
+
+/** The structure of the graph the metric values have been computed for */
+let valuesGraphKey: number | null = null
+
+/** The settings the metrics have been computed for */
+let appliedSettings: MetricSettings | null = null
+
+let worker: Worker | null = null
+
+/** Resolves the pending worker request with `null` */
+let cancelPendingRequest: (() => void) | null = null
+
+let form: HTMLFormElement | null = null
+
+/**
+ * Wires the metrics panel, which maps graph metrics to the size and the color of the nodes.
+ * @param onChange Called after the user changed the settings.
+ */
+export function initializeMetricsPanel(onChange: () => void): void {
+  form = document.getElementById('metrics-panel') as HTMLFormElement
+  for (const name of ['sizeMetric', 'colorMetric']) {
+    const select = form.elements.namedItem(name) as HTMLSelectElement
+    select.add(new Option('None', 'none'))
+    for (const [metric, text] of Object.entries(METRIC_NAMES)) {
+      select.add(new Option(text, metric))
+    }
+  }
+  form.addEventListener('change', () => {
+    if (form!.reportValidity()) {
+      onChange()
+    }
+  })
+  form.addEventListener('submit', (e) => e.preventDefault())
+}
+
+export function getMetricSettings(): MetricSettings {
+  const elements = form!.elements
+  const value = (name: string) => (elements.namedItem(name) as HTMLInputElement).value
+  return {
+    sizeMetric: value('sizeMetric') as MetricSettings['sizeMetric'],
+    colorMetric: value('colorMetric') as MetricSettings['colorMetric'],
+    minSize: Number(value('minSize')),
+    maxSize: Number(value('maxSize')),
+    lowColor: value('lowColor'),
+    highColor: value('highColor')
+  }
+}
+
+export function setMetricSettings(settings: MetricSettings): void {
+  const elements = form!.elements
+  for (const [name, value] of Object.entries(settings)) {
+    ;(elements.namedItem(name) as HTMLInputElement).value = String(value)
+  }
+}
+
+/**
+ * Computes the metrics that the settings map to the node size and color. Group nodes are not
+ * considered, since their size depends on their content. Metrics that have been computed for the
+ * same graph are not computed again. The centrality metrics are computed in a web worker, with a
+ * progress dialog that lets the user cancel.
+ * @returns Whether the metrics have been updated, `false` if the computation has been canceled and
+ * the previous metrics stay in effect.
+ */
+export async function updateMetrics(masterGraph: IGraph): Promise<boolean> {
+  const settings = getMetricSettings()
+  const graphKey = computeGraphKey(masterGraph)
+  const values =
+    graphKey === valuesGraphKey
+      ? new Map(metricValues)
+      : new Map<GraphMetric, Map<string, number>>()
+
+  const missingMetrics = [...new Set([settings.sizeMetric, settings.colorMetric])].filter(
+    (metric): metric is GraphMetric => metric !== 'none' && !values.has(metric)
+  )
+  for (const metric of missingMetrics) {
+    if (!isCentralityMetric(metric)) {
+      values.set(metric, computeDegree(masterGraph, metric))
+    }
+  }
+  const centralityMetrics = missingMetrics.filter(isCentralityMetric)
+  if (centralityMetrics.length > 0) {
+    const centralities = await computeCentralities(masterGraph, centralityMetrics)
+    if (!centralities) {
+      return false
+    }
+    centralities.forEach((centrality, metric) => values.set(metric, centrality))
+  }
+
+  metricValues = values
+  metricRanges = new Map([...values].map(([metric, valuesById]) => [metric, getRange(valuesById)]))
+  valuesGraphKey = graphKey
+  appliedSettings = settings
+  return true
+}
+
+/**
+ * Returns the size and fill of a node according to the computed metrics, which override the type
+ * color and the style rules.
+ */
+export function getMetricStyle(node: INode): NodeStyleProperties {
+  const data = node.tag as NodeData | null
+  if (!data || !appliedSettings) {
+    return {}
+  }
+  const { sizeMetric, colorMetric, minSize, maxSize, lowColor, highColor } = appliedSettings
+  const properties: NodeStyleProperties = {}
+
+  const sizeFraction = sizeMetric !== 'none' ? getFraction(sizeMetric, data.id) : null
+  if (sizeFraction !== null) {
+    const size = minSize + sizeFraction * (maxSize - minSize)
+    properties.width = size
+    properties.height = size
+  }
+  const colorFraction = colorMetric !== 'none' ? getFraction(colorMetric, data.id) : null
+  if (colorFraction !== null) {
+    properties.fill = interpolateColor(lowColor, highColor, colorFraction)
+  }
+  return properties
+}
+
+/**
+ * Returns the gradient of the color metric, or `null` if the color does not depend on a metric.
+ */
+export function getMetricGradient(): MetricGradient | null {
+  if (!appliedSettings || appliedSettings.colorMetric === 'none') {
+    return null
+  }
+  const { colorMetric, lowColor, highColor } = appliedSettings
+  const values = metricValues.get(colorMetric)
+  if (!values || values.size === 0) {
+    return null
+  }
+  const [min, max] = metricRanges.get(colorMetric)!
+  return { title: METRIC_NAMES[colorMetric], min, max, lowColor, highColor }
+}
+
+/**
+ * Returns the nodes the metrics are computed for.
+ */
+function getMetricNodes(graph: IGraph): INode[] {
+  return graph.nodes.filter((node) => !graph.isGroupNode(node) && !!node.tag).toArray()
+}
+
+function isCentralityMetric(metric: GraphMetric): metric is CentralityMetric {
+  return (CENTRALITY_METRICS as GraphMetric[]).includes(metric)
+}
+
+function computeDegree(
+  graph: IGraph,
+  metric: Exclude<GraphMetric, CentralityMetric>
+): Map<string, number> {
+  let getValue: (node: INode) => number
+  switch (metric) {
+    case 'degree':
+      getValue = (node) => graph.degree(node)
+      break
+    case 'in-degree':
+      getValue = (node) => graph.inDegree(node)
+      break
+    case 'out-degree':
+      getValue = (node) => graph.outDegree(node)
+      break
+  }
+  return new Map(getMetricNodes(graph).map((node) => [(node.tag as NodeData).id, getValue(node)]))
+}
+
+/**
+ * Computes the given centrality metrics in the web worker. A pending computation is abandoned.
+ * @returns The values by node id, or `null` if the computation has been canceled.
+ */
+async function computeCentralities(
+  graph: IGraph,
+  metrics: CentralityMetric[]
+): Promise<Map<CentralityMetric, Map<string, number>> | null> {
+  cancelPendingRequest?.()
+
+  // group nodes are part of the structure, since edges may connect them
+  const nodes: INode[] = graph.nodes.toArray()
+  const indices = new Map(nodes.map((node, index) => [node, index]))
+  const request: MetricsRequest = {
+    nodeCount: nodes.length,
+    edges: graph.edges
+      .toArray()
+      .map((edge) => [indices.get(edge.sourceNode!)!, indices.get(edge.targetNode!)!]),
+    metrics
+  }
+
+  const response = await new Promise<MetricsResponse | null>((resolve, reject) => {
+    const metricsWorker = getWorker()
+    const finish = () => {
+      cancelPendingRequest = null
+      progress.close()
+    }
+    const cancel = () => {
+      finish()
+      // the computation cannot be interrupted, so the worker is replaced
+      metricsWorker.terminate()
+      worker = null
+      resolve(null)
+    }
+    const progress = showProgressDialog('Metrics', () => {
+      cancel()
+      if (appliedSettings) {
+        setMetricSettings(appliedSettings)
+      }
+    })
+    progress.update(`Computing ${metrics.map((metric) => METRIC_NAMES[metric]).join(', ')}...`)
+    cancelPendingRequest = cancel
+
+    metricsWorker.onmessage = (event: MessageEvent<MetricsResponse>) => {
+      finish()
+      const response = event.data
+      if (response.type === 'error') {
+        reject(new Error(response.message))
+      } else {
+        resolve(response)
+      }
+    }
+    metricsWorker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message))
+    }
+    metricsWorker.postMessage(request)
+  })
+  if (!response || response.type !== 'computed') {
+    return null
+  }
+
+  const metricNodes = new Set(getMetricNodes(graph))
+  return new Map(
+    response.results.map(({ metric, values }) => [
+      metric,
+      new Map(
+        nodes
+          .map((node, index) => [node, values[index]] as const)
+          .filter(([node]) => metricNodes.has(node))
+          .map(([node, value]) => [(node.tag as NodeData).id, value])
+      )
+    ])
+  )
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./graph-metrics.worker.ts', import.meta.url), { type: 'module' })
+  }
+  return worker
+}
+
+/**
+ * Returns a hash of the nodes and edges of the graph, which identifies the graph the metrics have
+ * been computed for.
+ */
+function computeGraphKey(graph: IGraph): number {
+  const getId = (node: INode) => (node.tag as NodeData | null)?.id ?? ''
+  const nodeKeys = graph.nodes.map((node) => `${getId(node)} ${graph.isGroupNode(node)}`)
+  const edgeKeys = graph.edges.map(
+    (edge) => `${getId(edge.sourceNode!)} ${getId(edge.targetNode!)}`
+  )
+  return hashStrings(edgeKeys, hashStrings(nodeKeys))
+}
+
+/**
+ * Returns the position of the node's value between the lowest and the highest value, or `null` if
+ * the node has no value.
+ */
+function getFraction(metric: GraphMetric, id: string): number | null {
+  const value = metricValues.get(metric)?.get(id)
+  if (value === undefined) {
+    return null
+  }
+  const [min, max] = metricRanges.get(metric)!
+  return max > min ? (value - min) / (max - min) : 0.5
+}
+
+function getRange(values: Map<string, number>): [number, number] {
+  let min = Infinity
+  let max = -Infinity
+  for (const value of values.values()) {
+    min = Math.min(min, value)
+    max = Math.max(max, value)
+  }
+  return [min, max]
+}
+
+/**
+ * Interpolates between two colors given as `#rrggbb`.
+ */
+function interpolateColor(low: string, high: string, fraction: number): string {
+  const parse = (color: string) =>
+    [1, 3, 5].map((index) => parseInt(color.substring(index, index + 2), 16))
+  const lowChannels = parse(low)
+  const highChannels = parse(high)
+  return (
+    '#' +
+    lowChannels
+      .map((channel, index) => Math.round(channel + (highChannels[index] - channel) * fraction))
+      .map((channel) => channel.toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase()
+  )
+}
@@ -0,0 +1,64 @@
+import { BetweennessCentrality, ClosenessCentrality, DefaultGraph, INode, PageRank } from 'yfiles'
+import './lib/yFilesLicense'
+import type { CentralityMetric } from './graph-metrics'
+
+/**
+ * The structure of the graph the metrics worker computes the centrality metrics for. The edges
+ * refer to the nodes by their index.
+ */
+export interface MetricsRequest {
+  nodeCount: number
+  edges: [number, number][]
+  metrics: CentralityMetric[]
+}
+
+/**
+ * The computed values are given by node index.
+ */
+export type MetricsResponse =
+  | { type: 'computed'; results: { metric: CentralityMetric; values: number[] }[] }
+  | { type: 'error'; message: string }
+
+self.addEventListener('message', (event: MessageEvent<MetricsRequest>) => {
+  const { nodeCount, edges, metrics } = event.data
+  try {
+    const graph = new DefaultGraph()
+    const nodes: INode[] = []
+    for (let i = 0; i < nodeCount; i++) {
+      nodes.push(graph.createNode())
+    }
+    for (const [source, target] of edges) {
+      graph.createEdge(nodes[source], nodes[target])
+    }
+    post({
+      type: 'computed',
+      results: metrics.map((metric) => {
+        const getValue = computeCentrality(graph, metric)
+        return { metric, values: nodes.map((node) => getValue(node) || 0) }
+      })
+    })
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message })
+  }
+})
+
+function post(response: MetricsResponse): void {
+  self.postMessage(response)
+}
+
+function computeCentrality(graph: DefaultGraph, metric: CentralityMetric): (node: INode) => number {
+  switch (metric) {
+    case 'page-rank': {
+      const result = new PageRank().run(graph)
+      return (node) => result.pageRank.get(node)
+    }
+    case 'betweenness': {
+      const result = new BetweennessCentrality({ directed: false }).run(graph)
+      return (node) => result.normalizedNodeCentrality.get(node)
+    }
+    case 'closeness': {
+      const result = new ClosenessCentrality({ directed: false }).run(graph)
+      return (node) => result.normalizedNodeCentrality.get(node)
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { GraphComponent, GraphMLIOHandler, IGraph, YString } from 'yfiles'
+import { FileIoSupport } from './lib/FileIoSupport'
+import { getCompleteGraph } from './type-filter'
+
+/**
+ * The namespace of the GraphML elements that hold the node and edge records.
+ */
+const RECORD_NAMESPACE = 'http://www.yworks.com/xml/yfiles-for-html/ontology-viewer/1.0'
+
+/**
+ * The name of the graph data that holds the layout fingerprint.
+ */
+const LAYOUT_FINGERPRINT_KEY = 'layoutFingerprint'
+
+/**
+ * Writes the current graph including layout, styles, labels, folding state and the node and edge
+ * records to a GraphML file.
+ * @param layoutFingerprint The fingerprint of the layout, so that re-imported data can be checked
+ * against the saved file.
+ */
+export async function saveGraphML(
+  graphComponent: GraphComponent,
+  layoutFingerprint: string,
+  fileName = 'graph.graphml'
+) {
+  await FileIoSupport.saveToFile(
+    await writeGraphML(graphComponent.graph, layoutFingerprint),
+    fileName
+  )
+}
+
+/**
+ * Returns the GraphML text of the given graph including the node and edge records. Nodes of hidden
+ * types are written as well.
+ * @param layoutFingerprint The fingerprint of the layout, which is written as graph data if given.
+ */
+export function writeGraphML(graph: IGraph, layoutFingerprint?: string): Promise<string> {
+  const ioHandler = createGraphMLIOHandler()
+  if (layoutFingerprint) {
+    ioHandler.addGraphOutputData(YString.$class, LAYOUT_FINGERPRINT_KEY, () => layoutFingerprint)
+  }
+  return ioHandler.write(getCompleteGraph(graph))
+}
+
+/**
+ * Lets the user pick a GraphML file and reads it into the given graph, replacing its content.
+ * @returns The name of the opened file and the layout fingerprint it has been saved with.
+ */
+export async function openGraphML(
+  graph: IGraph
+): Promise<{ fileName: string; layoutFingerprint: string | null }> {
+  const file = await FileIoSupport.openFile('.graphml')
+  const layoutFingerprint = await readGraphML(graph, await file.text())
+  return { fileName: file.name, layoutFingerprint }
+}
+
+/**
+ * Reads the given GraphML text into the given graph, replacing its content.
+ * @returns The layout fingerprint the file has been saved with, or `null` if it has none.
+ */
+export async function readGraphML(graph: IGraph, graphMLText: string): Promise<string | null> {
+  const completeGraph = getCompleteGraph(graph)
+  completeGraph.clear()
+  let layoutFingerprint: string | null = null
+  const ioHandler = createGraphMLIOHandler()
+  ioHandler.addGraphInputData(
+    YString.$class,
+    LAYOUT_FINGERPRINT_KEY,
+    (_: IGraph, value: string | null) => {
+      layoutFingerprint = value
+    }
+  )
+  await ioHandler.readFromGraphMLText(completeGraph, graphMLText)
+  return layoutFingerprint
+}
+
+/**
+ * Creates a GraphML handler that stores the plain record objects in the item tags as JSON.
+ */
+function createGraphMLIOHandler(): GraphMLIOHandler {
+  const ioHandler = new GraphMLIOHandler()
+
+  ioHandler.addHandleSerializationListener((_, args) => {
+    if (isRecord(args.item)) {
+      args.writer
+        .writeStartElement('Record', RECORD_NAMESPACE)
+        .writeString(JSON.stringify(args.item))
+        .writeEndElement()
+      args.handled = true
+    }
+  })
+
+  ioHandler.addHandleDeserializationListener((_, args) => {
+    const xmlNode = args.xmlNode
+    if (
+      xmlNode instanceof Element &&
+      xmlNode.localName === 'Record' &&
+      xmlNode.namespaceURI === RECORD_NAMESPACE
+    ) {
+      args.result = JSON.parse(xmlNode.textContent || '{}')
+    }
+  })
+
+  return ioHandler
+}
+
+function isRecord(item: unknown): item is Record<string, unknown> {
+  return (
+    item !== null && typeof item === 'object' && Object.getPrototypeOf(item) === Object.prototype
+  )
+}
@@ -0,0 +1,83 @@
+import './import-validation.css'
+import { CsvImportWorker } from './csv-import'
+import { CsvTable, GraphData } from './lib/GraphData'
+import { ValidationIssue, ValidationResolution } from './lib/CsvValidation'
+
+/**
+ * The maximum number of issues that are listed in the dialog.
+ */
+const MAX_LISTED_ISSUES = 200
+
+/**
+ * Validates the uploaded nodes and edges files. If problems are found, they are reported in a
+ * dialog that lets the user abort the import or continue with fixed data. The checks run in a
+ * worker.
+ * @returns The data to import or `null` if the import has been aborted.
+ */
+export async function validateCsvImport(
+  nodesTable: CsvTable,
+  edgesTable: CsvTable
+): Promise<GraphData | null> {
+  const worker = new CsvImportWorker()
+  try {
+    const issues = await worker.findIssues(nodesTable, edgesTable)
+    if (!issues) {
+      return null
+    }
+    const resolution = issues.length === 0 ? 'fix' : await showValidationDialog(issues)
+    return resolution === 'abort' ? null : await worker.resolveIssues(resolution)
+  } finally {
+    worker.dispose()
+  }
+}
+
+/**
+ * Shows the found issues and lets the user decide how to continue.
+ */
+function showValidationDialog(issues: ValidationIssue[]): Promise<ValidationResolution> {
+  const canContinue = !issues.some((issue) => issue.kind === 'missing-column')
+  const hasDanglingEndpoints = issues.some((issue) => issue.kind === 'dangling-endpoint')
+
+  return new Promise((resolve) => {
+    const dialog = document.createElement('dialog')
+    dialog.id = 'import-validation-dialog'
+    dialog.innerHTML = `
+<div class="user-input-title">
+  Import Validation
+</div>
+<form method="dialog">
+  <p>${issues.length} problem${issues.length === 1 ? '' : 's'} found in the uploaded files.</p>
+  <ul class="validation-issues"></ul>
+  <div class="validation-actions">
+    <button value="abort">Abort</button>
+    ${canContinue ? '<button value="fix">Fix and Continue</button>' : ''}
+    ${hasDanglingEndpoints ? '<button value="placeholders">Create Placeholders</button>' : ''}
+  </div>
+</form>
+  `
+
+    const list = dialog.querySelector('.validation-issues')!
+    for (const issue of issues.slice(0, MAX_LISTED_ISSUES)) {
+      const item = document.createElement('li')
+      item.className = `validation-issue validation-issue--${issue.kind}`
+      const location =
+        issue.line !== undefined ? `${issue.fileName}, line ${issue.line}` : issue.fileName
+      item.textContent = `${location}: ${issue.message}`
+      list.appendChild(item)
+    }
+    if (issues.length > MAX_LISTED_ISSUES) {
+      const item = document.createElement('li')
+      item.textContent = `... and ${issues.length - MAX_LISTED_ISSUES} more`
+      list.appendChild(item)
+    }
+
+    dialog.addEventListener('close', () => {
+      resolve((dialog.returnValue as ValidationResolution) || 'abort')
+      document.body.removeChild(dialog)
+    })
+
+    document.body.appendChild(dialog)
+
+    dialog.showModal()
+  })
+}
@@ -0,0 +1,156 @@
+import {
+  GraphComponent,
+  GraphViewerInputMode,
+  IEdge,
+  INode,
+  ItemEventArgs,
+  Point,
+  Rect
+} from 'yfiles'
+import { NodeData } from './lib/GraphData'
+import { createItemRandom } from './lib/SeededRandom'
+import { LayoutSettings } from './layout-algorithms'
+import { executeLayout } from './layout-executor'
+import { getLayoutSettings } from './layout-panel'
+import { isPinned } from './node-pinning'
+
+/**
+ * The distance at which placed nodes are kept from each other and from the existing drawing.
+ */
+const NODE_DISTANCE = 40
+
+/**
+ * Lays out expanded groups incrementally, so that the rest of the drawing stays where it is.
+ * @param onLayout Called after an expanded group has been laid out.
+ */
+export function initializeIncrementalLayout(
+  graphComponent: GraphComponent,
+  onLayout: () => void
+): void {
+  const navigationInputMode = (graphComponent.inputMode as GraphViewerInputMode).navigationInputMode
+  navigationInputMode.addGroupExpandedListener(async (_, evt: ItemEventArgs<INode>) => {
+    const graph = graphComponent.graph
+    const group = evt.item
+    const content = new Set<INode>([group, ...graph.groupingSupport.getDescendants(group)])
+    // the content keeps its arrangement from before the group was collapsed
+    await runIncrementalLayout(graphComponent, content, null)
+    onLayout()
+  })
+}
+
+/**
+ * Arranges the given nodes of an already laid out graph without moving the other nodes much.
+ *
+ * The nodes are first placed at the center of their already placed neighbors, nodes without such
+ * neighbors next to the existing drawing. Then only these nodes are arranged and the edges at them
+ * are rerouted.
+ * @param nodes The new or changed nodes of the graph of the component.
+ * @param seed Determines the jitter of the initial placement, or `null` to start the layout from
+ *   the current positions of the nodes.
+ */
+export async function runIncrementalLayout(
+  graphComponent: GraphComponent,
+  nodes: Set<INode>,
+  seed: number | null
+): Promise<void> {
+  const graph = graphComponent.graph
+  const affectedNodes = new Set(Array.from(nodes).filter((node) => graph.contains(node)))
+  if (affectedNodes.size === 0) {
+    return
+  }
+  const fixedNodes = graph.nodes.filter((node) => !affectedNodes.has(node)).toArray()
+  // the incremental layout is always organic, with the time budget of the layout panel
+  const settings: LayoutSettings = {
+    ...getLayoutSettings(),
+    algorithm: 'organic',
+    spacing: NODE_DISTANCE,
+    edgeRouting: 'organic'
+  }
+  if (fixedNodes.length === 0) {
+    // nothing to preserve
+    await executeLayout(graphComponent, settings)
+    return
+  }
+
+  if (seed !== null) {
+    placeNodes(graphComponent, affectedNodes, getBounds(fixedNodes), seed)
+  }
+
+  await executeLayout(graphComponent, settings, {
+    // the other nodes may make some room unless they are pinned
+    scope: fixedNodes.some(isPinned) ? 'subset' : 'mainly-subset',
+    affectedNodes: (node: INode) => affectedNodes.has(node),
+    // only the edges at the placed nodes are rerouted
+    affectedEdges: (edge: IEdge) =>
+      affectedNodes.has(edge.sourceNode!) || affectedNodes.has(edge.targetNode!)
+  })
+}
+
+/**
+ * Places the given nodes at the center of their placed neighbors, starting with the nodes next to
+ * the fixed part of the graph, so that chains of new nodes grow out of the existing drawing.
+ * Nodes that are not connected to the drawing are placed in a column to its right.
+ *
+ * The nodes are visited in the order of their ids and the jitter of each node depends only on the
+ * seed and its id, so that the placement does not depend on the order of the imported rows.
+ */
+function placeNodes(
+  graphComponent: GraphComponent,
+  nodes: Set<INode>,
+  bounds: Rect,
+  seed: number
+): void {
+  const graph = graphComponent.graph
+  const getId = (node: INode) => (node.tag as NodeData | null)?.id ?? ''
+  // group nodes are arranged around their content
+  const unplaced = new Set(
+    Array.from(nodes)
+      .filter((node) => !graph.isGroupNode(node))
+      .sort((a, b) => (getId(a) < getId(b) ? -1 : getId(a) > getId(b) ? 1 : 0))
+  )
+  const placed = new Set<INode>()
+  const isPlaced = (node: INode) => !nodes.has(node) || placed.has(node)
+
+  let placedAny = true
+  while (unplaced.size > 0 && placedAny) {
+    placedAny = false
+    for (const node of Array.from(unplaced)) {
+      const neighbors = graph.neighbors(node).filter(isPlaced).toArray()
+      if (neighbors.length === 0) {
+        continue
+      }
+      const center = neighbors
+        .reduce((sum, neighbor) => sum.add(neighbor.layout.center), Point.ORIGIN)
+        .multiply(1 / neighbors.length)
+      // a little jitter keeps nodes with the same neighbors apart
+      graph.setNodeCenter(node, center.add(createJitter(seed, getId(node))))
+      unplaced.delete(node)
+      placed.add(node)
+      placedAny = true
+    }
+  }
+
+  let y = bounds.y
+  for (const node of unplaced) {
+    const { width, height } = node.layout
+    graph.setNodeCenter(
+      node,
+      new Point(bounds.maxX + NODE_DISTANCE + width / 2, y + height / 2).add(
+        createJitter(seed, getId(node))
+      )
+    )
+    y += height + NODE_DISTANCE
+  }
+}
+
+function createJitter(seed: number, nodeId: string): Point {
+  const random = createItemRandom(seed, nodeId)
+  return new Point(
+    random() * NODE_DISTANCE - NODE_DISTANCE / 2,
+    random() * NODE_DISTANCE - NODE_DISTANCE / 2
+  )
+}
+
+function getBounds(nodes: INode[]): Rect {
+  return nodes.map((node) => node.layout.toRect()).reduce((bounds, rect) => Rect.add(bounds, rect))
+}
@@ -0,0 +1,184 @@
+import {
+  CenterNodesPolicy,
+  CircularLayout,
+  CircularLayoutStyle,
+  DefaultNodePlacer,
+  HierarchicLayout,
+  ILayoutAlgorithm,
+  LayoutOrientation,
+  OrganicEdgeRouter,
+  OrganicLayout,
+  OrganicLayoutScope,
+  OrthogonalLayout,
+  OrthogonalLayoutStyle,
+  PartialLayout,
+  RadialLayout,
+  RadialLayoutEdgeRoutingStrategy,
+  RecursiveGroupLayout,
+  TreeLayout,
+  TreeReductionStage
+} from 'yfiles'
+
+export type LayoutAlgorithm =
+  | 'organic'
+  | 'hierarchic'
+  | 'radial'
+  | 'tree'
+  | 'circular'
+  | 'orthogonal'
+
+export type LayoutDirection = 'top-to-bottom' | 'left-to-right' | 'bottom-to-top' | 'right-to-left'
+
+export interface LayoutSettings {
+  algorithm: LayoutAlgorithm
+  /** The preferred distance between nodes */
+  spacing: number
+  /** The direction of hierarchic and tree layouts */
+  direction: LayoutDirection
+  /** One of the edge routing styles the algorithm offers */
+  edgeRouting: string
+  orthogonalStyle: 'normal' | 'uniform' | 'box' | 'mixed'
+  /** The predicates of the edges that determine the layering of the hierarchic layout, all if empty */
+  layeringPredicates: string[]
+  /** Whether the layering edges point upwards, e.g. `subClassOf` edges from a class to its parent */
+  reverseLayering: boolean
+  /** The seed of the initial placement of imported nodes, derived from the data if `null` */
+  seed: number | null
+  /** The time in seconds after which the layout stops with the best result so far */
+  timeBudget: number
+}
+
+/**
+ * Which nodes a layout arranges: all, only the affected ones, or mainly the affected ones while
+ * the others make some room. The affected nodes are given by the layout data.
+ */
+export type LayoutScope = 'all' | 'subset' | 'mainly-subset'
+
+/**
+ * Describes a layout, so that it can be created in the layout worker.
+ */
+export interface LayoutDescriptor {
+  settings: LayoutSettings
+  scope: LayoutScope
+  /** Whether the graph contains group nodes */
+  hasGroups: boolean
+  /** Whether the layout data names the center node of the radial layout */
+  hasCenterNode: boolean
+  /** Whether the organic edge routing reroutes only the affected edges of the layout data */
+  routeAffectedEdgesOnly: boolean
+}
+
+const ORIENTATIONS: { [direction in LayoutDirection]: LayoutOrientation } = {
+  'top-to-bottom': LayoutOrientation.TOP_TO_BOTTOM,
+  'left-to-right': LayoutOrientation.LEFT_TO_RIGHT,
+  'bottom-to-top': LayoutOrientation.BOTTOM_TO_TOP,
+  'right-to-left': LayoutOrientation.RIGHT_TO_LEFT
+}
+
+const ORTHOGONAL_STYLES: { [style in LayoutSettings['orthogonalStyle']]: OrthogonalLayoutStyle } = {
+  normal: OrthogonalLayoutStyle.NORMAL,
+  uniform: OrthogonalLayoutStyle.UNIFORM,
+  box: OrthogonalLayoutStyle.BOX,
+  mixed: OrthogonalLayoutStyle.MIXED
+}
+
+/**
+ * Creates the layout algorithm of the given descriptor. Layouts of a subset of the nodes keep the
+ * other nodes where they are.
+ */
+export function createLayoutAlgorithm(descriptor: LayoutDescriptor): ILayoutAlgorithm {
+  const { settings, scope } = descriptor
+  if (settings.algorithm === 'organic') {
+    const layout = createOrganicLayout(settings)
+    layout.scope =
+      scope === 'subset'
+        ? OrganicLayoutScope.SUBSET
+        : scope === 'mainly-subset'
+          ? OrganicLayoutScope.MAINLY_SUBSET
+          : OrganicLayoutScope.ALL
+    return layout
+  }
+  const layout = createCoreLayout(descriptor)
+  // the other algorithms arrange the affected nodes, which are then placed next to the other ones
+  return scope === 'all' ? layout : new PartialLayout(layout)
+}
+
+/**
+ * Creates the edge router that runs after the layout of the given descriptor, if any.
+ */
+export function createEdgeRouter(descriptor: LayoutDescriptor): ILayoutAlgorithm | null {
+  const { settings } = descriptor
+  if (settings.algorithm === 'organic' && settings.edgeRouting === 'organic') {
+    // route the edges around the nodes, which bundles parallel edges
+    return new OrganicEdgeRouter({ routeAllEdges: !descriptor.routeAffectedEdgesOnly })
+  }
+  return null
+}
+
+function createOrganicLayout({ spacing }: LayoutSettings): OrganicLayout {
+  const layout = new OrganicLayout()
+  // the same input yields the same result
+  layout.deterministic = true
+  layout.minimumNodeDistance = spacing
+  layout.nodeOverlapsAllowed = false
+  return layout
+}
+
+function createCoreLayout({
+  settings,
+  hasGroups,
+  hasCenterNode
+}: LayoutDescriptor): ILayoutAlgorithm {
+  const { spacing, edgeRouting } = settings
+  // these algorithms do not support groups, so they arrange the content of each group separately
+  const groupAware = (layout: ILayoutAlgorithm) =>
+    hasGroups ? new RecursiveGroupLayout(layout) : layout
+
+  switch (settings.algorithm) {
+    case 'hierarchic':
+      return new HierarchicLayout({
+        layoutOrientation: ORIENTATIONS[settings.direction],
+        minimumLayerDistance: spacing,
+        nodeToNodeDistance: spacing / 2,
+        orthogonalRouting: edgeRouting === 'orthogonal'
+      })
+    case 'radial':
+      return groupAware(
+        new RadialLayout({
+          minimumLayerDistance: spacing * 2,
+          minimumNodeToNodeDistance: spacing / 2,
+          edgeRoutingStrategy:
+            edgeRouting === 'arc'
+              ? RadialLayoutEdgeRoutingStrategy.ARC
+              : RadialLayoutEdgeRoutingStrategy.POLYLINE,
+          // without a given center, the most central node is placed in the center
+          centerNodesPolicy: hasCenterNode ? CenterNodesPolicy.CUSTOM : CenterNodesPolicy.CENTRALITY
+        })
+      )
+    case 'tree': {
+      const layout = new TreeLayout({ layoutOrientation: ORIENTATIONS[settings.direction] })
+      layout.defaultNodePlacer = new DefaultNodePlacer({
+        horizontalDistance: spacing / 2,
+        verticalDistance: spacing
+      })
+      // ontologies are rarely trees, the additional edges are drawn straight
+      layout.prependStage(new TreeReductionStage())
+      return groupAware(layout)
+    }
+    case 'circular': {
+      // one circle per group of the layout data
+      const layout = new CircularLayout({ layoutStyle: CircularLayoutStyle.CUSTOM_GROUPS })
+      layout.singleCycleLayout.minimumNodeDistance = spacing / 2
+      layout.edgeBundling.defaultBundleDescriptor.bundled = edgeRouting === 'bundled'
+      return groupAware(layout)
+    }
+    case 'orthogonal':
+      return new OrthogonalLayout({
+        gridSpacing: Math.max(5, spacing / 2),
+        layoutStyle: ORTHOGONAL_STYLES[settings.orthogonalStyle]
+      })
+    case 'organic':
+    default:
+      return createOrganicLayout(settings)
+  }
+}
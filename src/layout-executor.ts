@@ -0,0 +1,176 @@
+import {
+  CircularLayoutData,
+  GraphComponent,
+  HierarchicLayoutData,
+  IEdge,
+  INode,
+  LayoutData,
+  LayoutExecutorAsync,
+  OrganicEdgeRouterData,
+  OrganicLayoutData,
+  PartialLayoutData,
+  RadialLayoutData,
+  TimeSpan
+} from 'yfiles'
+import { LayoutDescriptor, LayoutScope, LayoutSettings } from './layout-algorithms'
+import { EdgeData, getEdgePredicate, NodeData } from './lib/GraphData'
+import type { LayoutWorkerResponse } from './layout.worker'
+import { showProgressDialog } from './progress-dialog'
+
+export interface LayoutOptions {
+  /** Which nodes are arranged, all by default */
+  scope?: LayoutScope
+  /** The nodes that are arranged if the scope is a subset */
+  affectedNodes?: (node: INode) => boolean
+  /** The edges the organic edge routing reroutes, all by default */
+  affectedEdges?: (edge: IEdge) => boolean
+  /** The node in the center of the radial layout, the most central one by default */
+  centerNode?: INode | null
+}
+
+/**
+ * The interval in which the progress dialog shows the elapsed time.
+ */
+const PROGRESS_INTERVAL = 250
+
+let worker: Worker | null = null
+
+/**
+ * Computes the layout in a web worker, so that the page stays responsive for large graphs, and
+ * animates the result. A progress dialog lets the user cancel the computation. When the time budget
+ * of the settings has elapsed, the layout stops with the best result so far.
+ */
+export async function executeLayout(
+  graphComponent: GraphComponent,
+  settings: LayoutSettings,
+  options: LayoutOptions = {}
+): Promise<void> {
+  const graph = graphComponent.graph
+  const descriptor: LayoutDescriptor = {
+    settings,
+    scope: options.scope ?? 'all',
+    hasGroups: graph.nodes.some((node) => graph.isGroupNode(node)),
+    hasCenterNode: !!options.centerNode,
+    routeAffectedEdgesOnly: !!options.affectedEdges
+  }
+
+  let canceled = false
+  let rejectPending: ((error: Error) => void) | null = null
+  const executor = new LayoutExecutorAsync({
+    messageHandler: (data: object) =>
+      new Promise((resolve, reject) => {
+        const layoutWorker = getWorker()
+        rejectPending = reject
+        layoutWorker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) => {
+          const response = event.data
+          if (response.type === 'error') {
+            reject(new Error(response.message))
+          } else {
+            resolve(response.data)
+          }
+        }
+        layoutWorker.onerror = (event) => reject(new Error(event.message))
+        layoutWorker.postMessage(data)
+      }).finally(() => progress.close()),
+    graphComponent,
+    layoutDescriptor: descriptor,
+    layoutData: createLayoutData(descriptor, options),
+    duration: '1s',
+    animateViewport: true,
+    stopDuration: TimeSpan.fromSeconds(settings.timeBudget)
+  })
+
+  const progress = showProgressDialog('Layout', () => {
+    canceled = true
+    executor.cancel()
+    // the computation cannot be interrupted, so the worker is replaced
+    worker?.terminate()
+    worker = null
+    rejectPending?.(new Error('The layout has been canceled'))
+  })
+  const startTime = performance.now()
+  const updateProgress = () => {
+    const seconds = (performance.now() - startTime) / 1000
+    progress.update(
+      `Computing layout... ${Math.floor(seconds)} s of at most ${settings.timeBudget} s`,
+      Math.min(1, seconds / settings.timeBudget)
+    )
+  }
+  updateProgress()
+  const interval = setInterval(updateProgress, PROGRESS_INTERVAL)
+
+  try {
+    await executor.start()
+  } catch (error) {
+    // canceled layouts leave the graph as it is
+    if (!canceled) {
+      throw error
+    }
+  } finally {
+    clearInterval(interval)
+    progress.close()
+  }
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./layout.worker.ts', import.meta.url), { type: 'module' })
+  }
+  return worker
+}
+
+/**
+ * Creates the layout data on the page. Its data is transferred to the worker with the graph.
+ */
+function createLayoutData(descriptor: LayoutDescriptor, options: LayoutOptions): LayoutData | null {
+  const { settings, scope } = descriptor
+  const layoutData: LayoutData[] = []
+
+  switch (settings.algorithm) {
+    case 'hierarchic': {
+      const predicates = new Set(settings.layeringPredicates)
+      const direction = settings.reverseLayering ? -1 : 1
+      const hierarchicData = new HierarchicLayoutData()
+      // edges of other predicates do not influence the layering
+      hierarchicData.edgeDirectedness.delegate = (edge: IEdge) =>
+        predicates.size === 0 ||
+        predicates.has(edge.tag ? getEdgePredicate(edge.tag as EdgeData) : '')
+          ? direction
+          : 0
+      layoutData.push(hierarchicData)
+      break
+    }
+    case 'radial':
+      if (options.centerNode) {
+        const centerNode = options.centerNode
+        const radialData = new RadialLayoutData()
+        radialData.centerNodes.delegate = (node: INode) => node === centerNode
+        layoutData.push(radialData)
+      }
+      break
+    case 'circular': {
+      const circularData = new CircularLayoutData()
+      // one circle per node type
+      circularData.customGroups.delegate = (node: INode) =>
+        (node.tag as NodeData | null)?.type ?? ''
+      layoutData.push(circularData)
+      break
+    }
+  }
+
+  if (scope !== 'all' && options.affectedNodes) {
+    const subsetData =
+      settings.algorithm === 'organic' ? new OrganicLayoutData() : new PartialLayoutData()
+    subsetData.affectedNodes.delegate = options.affectedNodes
+    layoutData.push(subsetData)
+  }
+  if (options.affectedEdges) {
+    const routerData = new OrganicEdgeRouterData()
+    routerData.affectedEdges.delegate = options.affectedEdges
+    layoutData.push(routerData)
+  }
+
+  return layoutData.length > 0
+    ? layoutData.reduce((combined, data) => combined.combineWith(data))
+    : null
+}
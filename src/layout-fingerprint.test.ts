@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { EdgeData, NodeData } from './lib/GraphData'
+import { createSeededRandom } from './lib/SeededRandom'
+import { computePlacementFingerprint, getLayoutSeed, getStartLocation } from './layout-fingerprint'
+
+const nodes: NodeData[] = Array.from({ length: 20 }, (_, i) => ({
+  id: `node-${i}`,
+  type: i % 2 === 0 ? 'Class' : 'Property'
+}))
+const edges: EdgeData[] = nodes
+  .slice(1)
+  .map((node, i) => ({ source: nodes[i].id, target: node.id, predicate: 'subClassOf' }))
+
+function shuffle<T>(items: T[], seed: number): T[] {
+  const random = createSeededRandom(seed)
+  const shuffled = items.slice()
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+/**
+ * The fingerprint of the initial placement of an import of the given rows.
+ */
+function getStartFingerprint(nodeRows: NodeData[], edgeRows: EdgeData[], userSeed: number | null) {
+  const seed = getLayoutSeed(userSeed, nodeRows, edgeRows)
+  return computePlacementFingerprint(
+    nodeRows.map(({ id }) => ({ id, ...getStartLocation(seed, id), width: 30, height: 30 })),
+    edgeRows.map((data) => ({ data, bends: [] }))
+  )
+}
+
+describe('layout fingerprint', () => {
+  it('does not depend on the order of the rows', () => {
+    const fingerprint = getStartFingerprint(nodes, edges, null)
+
+    for (const seed of [1, 2, 3]) {
+      expect(getStartFingerprint(shuffle(nodes, seed), shuffle(edges, seed), null)).toBe(
+        fingerprint
+      )
+    }
+  })
+
+  it('does not depend on the order of the rows with a user-specified seed', () => {
+    expect(getStartFingerprint(shuffle(nodes, 4), shuffle(edges, 4), 42)).toBe(
+      getStartFingerprint(nodes, edges, 42)
+    )
+  })
+
+  it('changes with the seed', () => {
+    expect(getStartFingerprint(nodes, edges, 1)).not.toBe(getStartFingerprint(nodes, edges, 2))
+  })
+})
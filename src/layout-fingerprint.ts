@@ -0,0 +1,96 @@
+import { IGraph } from 'yfiles'
+import { EdgeData, getEdgePredicate, NodeData } from './lib/GraphData'
+import { createItemRandom, hashStrings, toHex } from './lib/SeededRandom'
+
+/**
+ * The area in which new nodes are placed before the layout arranges them.
+ */
+const START_AREA = { width: 800, height: 600 }
+
+/**
+ * The bounds of a node for the layout fingerprint.
+ */
+export interface NodePlacement {
+  id: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * The record and the bends of an edge for the layout fingerprint.
+ */
+export interface EdgePlacement {
+  data: EdgeData | null
+  bends: { x: number; y: number }[]
+}
+
+/**
+ * Returns the seed for the initial placement of the given records: the user-specified seed or,
+ * if there is none, a hash of the records. The hash does not depend on the order of the rows.
+ */
+export function getLayoutSeed(
+  userSeed: number | null,
+  nodes: NodeData[],
+  edges: EdgeData[]
+): number {
+  if (userSeed !== null) {
+    return userSeed
+  }
+  const nodeIds = nodes.map((node) => node.id).sort()
+  const edgeKeys = edges
+    .map((edge) => `${edge.source}\u0000${edge.target}\u0000${getEdgePredicate(edge)}`)
+    .sort()
+  return hashStrings(edgeKeys, hashStrings(nodeIds))
+}
+
+/**
+ * Returns the initial position of a new node. It depends only on the seed and the node id, so
+ * that the same records in a different row order start from the same positions.
+ */
+export function getStartLocation(seed: number, nodeId: string): { x: number; y: number } {
+  const random = createItemRandom(seed, nodeId)
+  return { x: random() * START_AREA.width, y: random() * START_AREA.height }
+}
+
+/**
+ * Computes a hash of the node and edge coordinates of the given graph. Identical fingerprints
+ * mean that the data has been laid out identically.
+ * @param graph The master graph, so that collapsed content is included.
+ */
+export function computeLayoutFingerprint(graph: IGraph): string {
+  const nodes = graph.nodes.map((node) => {
+    const { x, y, width, height } = node.layout
+    return { id: (node.tag as NodeData | null)?.id ?? '', x, y, width, height }
+  })
+  const edges = graph.edges.map((edge) => ({
+    data: edge.tag as EdgeData | null,
+    bends: edge.bends.map((bend) => ({ x: bend.location.x, y: bend.location.y })).toArray()
+  }))
+  return computePlacementFingerprint(nodes.toArray(), edges.toArray())
+}
+
+/**
+ * Computes a hash of the given node and edge placements that does not depend on their order.
+ */
+export function computePlacementFingerprint(
+  nodes: NodePlacement[],
+  edges: EdgePlacement[]
+): string {
+  const round = (value: number) => value.toFixed(1)
+  const nodeEntries = nodes
+    .map(({ id, x, y, width, height }) =>
+      [id, round(x), round(y), round(width), round(height)].join(' ')
+    )
+    .sort()
+  const edgeEntries = edges
+    .map(({ data, bends }) =>
+      [
+        data ? `${data.source} ${data.target} ${getEdgePredicate(data)}` : '',
+        ...bends.map(({ x, y }) => `${round(x)},${round(y)}`)
+      ].join(' ')
+    )
+    .sort()
+  return toHex(hashStrings(edgeEntries, hashStrings(nodeEntries)))
+}
@@ -0,0 +1,138 @@
+import './layout-panel.css'
+import { GraphComponent, INode } from 'yfiles'
+import { LayoutAlgorithm, LayoutDirection, LayoutSettings } from './layout-algorithms'
+import { executeLayout } from './layout-executor'
+import { isPinned } from './node-pinning'
+
+/**
+ * The edge routing styles each algorithm offers, the first one being the default.
+ */
+const EDGE_ROUTING_OPTIONS: { [algorithm in LayoutAlgorithm]: [string, string][] } = {
+  organic: [
+    ['organic', 'Organic'],
+    ['straight', 'Straight']
+  ],
+  hierarchic: [
+    ['orthogonal', 'Orthogonal'],
+    ['polyline', 'Polyline']
+  ],
+  radial: [
+    ['polyline', 'Polyline'],
+    ['arc', 'Arc']
+  ],
+  tree: [['straight', 'Straight']],
+  circular: [
+    ['straight', 'Straight'],
+    ['bundled', 'Bundled']
+  ],
+  orthogonal: [['orthogonal', 'Orthogonal']]
+}
+
+let form: HTMLFormElement | null = null
+
+/**
+ * Wires the layout panel, which lets the user choose and configure the layout algorithm and apply
+ * it to the current graph.
+ * @param getPredicates Returns the edge predicates that can be chosen for the hierarchic layering.
+ * @param onApply Called when the user applies the layout. It reports failures itself.
+ */
+export function initializeLayoutPanel(
+  getPredicates: () => string[],
+  onApply: () => Promise<void>
+): void {
+  form = document.getElementById('layout-panel') as HTMLFormElement
+  const algorithmSelect = form.elements.namedItem('algorithm') as HTMLSelectElement
+
+  const update = () => {
+    const algorithm = algorithmSelect.value as LayoutAlgorithm
+    for (const element of Array.from(form!.querySelectorAll<HTMLElement>('[data-layouts]'))) {
+      element.hidden = !element.dataset.layouts!.split(' ').includes(algorithm)
+    }
+    const routingSelect = form!.elements.namedItem('edgeRouting') as HTMLSelectElement
+    routingSelect.innerHTML = ''
+    for (const [value, text] of EDGE_ROUTING_OPTIONS[algorithm]) {
+      routingSelect.add(new Option(text, value))
+    }
+    updatePredicates(getPredicates())
+  }
+  algorithmSelect.addEventListener('change', update)
+  update()
+
+  form.addEventListener('submit', async (e) => {
+    e.preventDefault()
+    await onApply()
+  })
+  // the predicates change with every import
+  form.addEventListener('focusin', () => updatePredicates(getPredicates()))
+}
+
+function updatePredicates(predicates: string[]): void {
+  const container = form!.querySelector('.layout-predicates')!
+  const checked = new Set(
+    Array.from(container.querySelectorAll<HTMLInputElement>('input:checked')).map(
+      (input) => input.value
+    )
+  )
+  const current = Array.from(container.querySelectorAll<HTMLInputElement>('input')).map(
+    (input) => input.value
+  )
+  if (current.join('\u0000') === predicates.join('\u0000')) {
+    return
+  }
+  container.innerHTML = ''
+  for (const predicate of predicates) {
+    const label = document.createElement('label')
+    const checkbox = document.createElement('input')
+    checkbox.type = 'checkbox'
+    checkbox.value = predicate
+    checkbox.checked = checked.has(predicate)
+    label.append(checkbox, predicate)
+    container.appendChild(label)
+  }
+}
+
+/**
+ * Returns the settings that are currently chosen in the layout panel.
+ */
+export function getLayoutSettings(): LayoutSettings {
+  const elements = form!.elements
+  const value = (name: string) => (elements.namedItem(name) as HTMLInputElement).value
+  return {
+    algorithm: value('algorithm') as LayoutAlgorithm,
+    spacing: Number(value('spacing')),
+    direction: value('direction') as LayoutDirection,
+    edgeRouting: value('edgeRouting'),
+    orthogonalStyle: value('orthogonalStyle') as LayoutSettings['orthogonalStyle'],
+    layeringPredicates: Array.from(
+      form!.querySelectorAll<HTMLInputElement>('.layout-predicates input:checked')
+    ).map((input) => input.value),
+    reverseLayering: (elements.namedItem('reverseLayering') as HTMLInputElement).checked,
+    seed: value('seed') === '' ? null : Math.trunc(Number(value('seed'))),
+    timeBudget: Number(value('timeBudget'))
+  }
+}
+
+/**
+ * Shows the fingerprint of the current layout in the panel.
+ * @param savedFingerprint The fingerprint stored with an opened file, shown if it differs.
+ */
+export function showLayoutFingerprint(fingerprint: string, savedFingerprint?: string): void {
+  const element = form!.querySelector('.layout-fingerprint')!
+  element.textContent =
+    savedFingerprint && savedFingerprint !== fingerprint
+      ? `Layout ${fingerprint} (saved as ${savedFingerprint})`
+      : `Layout ${fingerprint}`
+}
+
+/**
+ * Arranges the graph with the given settings and animates the change. Pinned nodes keep their
+ * position.
+ */
+export function runLayout(graphComponent: GraphComponent, settings: LayoutSettings): Promise<void> {
+  return executeLayout(graphComponent, settings, {
+    scope: graphComponent.graph.nodes.some(isPinned) ? 'subset' : 'all',
+    affectedNodes: (node: INode) => !isPinned(node),
+    // the selected node is placed in the center
+    centerNode: graphComponent.selection.selectedNodes.first()
+  })
+}
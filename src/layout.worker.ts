@@ -0,0 +1,33 @@
+import { LayoutExecutorAsyncWorker, LayoutGraph } from 'yfiles'
+import './lib/yFilesLicense'
+import { createEdgeRouter, createLayoutAlgorithm, LayoutDescriptor } from './layout-algorithms'
+
+/**
+ * The messages the layout worker posts: the result for the layout executor on the page or the
+ * message of a failed layout.
+ */
+export type LayoutWorkerResponse =
+  | { type: 'result'; data: unknown }
+  | { type: 'error'; message: string }
+
+/**
+ * Arranges the graph that the layout executor on the page has sent. The data of the layout data
+ * has been transferred with the graph.
+ */
+function applyLayout(graph: LayoutGraph, descriptor: LayoutDescriptor): void {
+  createLayoutAlgorithm(descriptor).applyLayout(graph)
+  createEdgeRouter(descriptor)?.applyLayout(graph)
+}
+
+self.addEventListener('message', (event: MessageEvent) => {
+  new LayoutExecutorAsyncWorker(applyLayout)
+    .process(event.data)
+    .then((data: unknown) => post({ type: 'result', data }))
+    .catch((error: unknown) =>
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+    )
+})
+
+function post(response: LayoutWorkerResponse): void {
+  self.postMessage(response)
+}
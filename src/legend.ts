@@ -0,0 +1,294 @@
+import './legend.css'
+import { MetricGradient } from './graph-metrics'
+import { StyleRule } from './lib/StyleRules'
+import { DASH_ARRAYS } from './style-rules'
+
+export interface NodeTypeEntry {
+  type: string
+  color: string
+  count: number
+  hidden: boolean
+}
+
+export interface EdgeTypeEntry {
+  predicate: string
+  color: string
+  /** The SVG dash array of the line sample */
+  dashArray: string
+  count: number
+}
+
+export interface LegendCallbacks {
+  /** Shows or hides the nodes of a type */
+  onToggle(type: string, visible: boolean): void
+  /** Shows only the nodes of a type, or all nodes again if the type is already shown alone */
+  onSolo(type: string): void
+  onRecolor(type: string, color: string): void
+  onRename(type: string, newType: string): void
+}
+
+let legend: HTMLElement | null = null
+let legendBody: HTMLElement | null = null
+let callbacks: LegendCallbacks | null = null
+
+/**
+ * Creates the legend in the given container. It can be collapsed to its title and dragged by it.
+ */
+export function initializeLegend(container: HTMLElement, legendCallbacks: LegendCallbacks): void {
+  callbacks = legendCallbacks
+  legend = document.createElement('div')
+  legend.id = 'legend'
+  legend.innerHTML = `
+<div class="legend-header">
+  <span class="legend-title">Legend</span>
+  <button class="legend-collapse" title="Collapse the legend" aria-expanded="true">&minus;</button>
+</div>
+<div class="legend-body"></div>
+  `
+  legendBody = legend.querySelector<HTMLElement>('.legend-body')!
+
+  const collapseButton = legend.querySelector<HTMLButtonElement>('.legend-collapse')!
+  collapseButton.addEventListener('click', () => {
+    const collapsed = legend!.classList.toggle('legend--collapsed')
+    collapseButton.setAttribute('aria-expanded', String(!collapsed))
+    collapseButton.innerHTML = collapsed ? '+' : '&minus;'
+    collapseButton.title = collapsed ? 'Expand the legend' : 'Collapse the legend'
+  })
+
+  enableDragging(legend, legend.querySelector<HTMLElement>('.legend-header')!, container)
+  container.appendChild(legend)
+}
+
+/**
+ * Shows the given node types, edge types, style rules and the gradient of the color metric.
+ */
+export function updateLegend(
+  nodeTypes: NodeTypeEntry[],
+  edgeTypes: EdgeTypeEntry[],
+  rules: StyleRule[],
+  gradient: MetricGradient | null
+): void {
+  if (!legendBody) {
+    return
+  }
+  legendBody.innerHTML = ''
+
+  if (nodeTypes.length > 0) {
+    legendBody.appendChild(createSectionTitle('Node Type'))
+  }
+  const soloType =
+    nodeTypes.filter((entry) => !entry.hidden).length === 1
+      ? nodeTypes.find((entry) => !entry.hidden)!.type
+      : null
+  for (const entry of nodeTypes) {
+    legendBody.appendChild(createNodeTypeItem(entry, entry.type === soloType))
+  }
+
+  if (edgeTypes.length > 0) {
+    legendBody.appendChild(createSectionTitle('Edge Type'))
+  }
+  for (const { predicate, color, dashArray, count } of edgeTypes) {
+    const item = createItem(createLineSample(color, 2, dashArray), predicate)
+    item.appendChild(createCount(count))
+    legendBody.appendChild(item)
+  }
+
+  if (rules.length > 0) {
+    legendBody.appendChild(createSectionTitle('Style Rules'))
+  }
+  rules.forEach((rule, index) => {
+    const name = rule.name || `Rule ${index + 1}`
+    legendBody!.appendChild(createItem(createRuleSample(rule), name))
+  })
+
+  if (gradient) {
+    legendBody.appendChild(createSectionTitle(gradient.title))
+    legendBody.appendChild(createGradient(gradient))
+  }
+}
+
+function createNodeTypeItem(entry: NodeTypeEntry, isSolo: boolean): HTMLElement {
+  const { type, color, count, hidden } = entry
+
+  const visibility = document.createElement('input')
+  visibility.type = 'checkbox'
+  visibility.checked = !hidden
+  visibility.title = hidden ? `Show ${type}` : `Hide ${type}`
+  visibility.addEventListener('change', () => callbacks?.onToggle(type, visibility.checked))
+
+  const colorInput = document.createElement('input')
+  colorInput.type = 'color'
+  colorInput.className = 'legend-color'
+  colorInput.value = color.toLowerCase()
+  colorInput.title = `Change the color of ${type}`
+  colorInput.addEventListener('change', () =>
+    callbacks?.onRecolor(type, colorInput.value.toUpperCase())
+  )
+
+  const item = createItem(colorInput, type)
+  item.insertBefore(visibility, colorInput)
+  item.classList.toggle('legend-item--hidden', hidden)
+
+  const name = item.querySelector<HTMLElement>('.legend-name')!
+  name.title = 'Double-click to rename'
+  name.addEventListener('dblclick', () => startRename(name, type))
+
+  item.appendChild(createCount(count))
+
+  const soloButton = document.createElement('button')
+  soloButton.className = 'legend-solo'
+  soloButton.textContent = 'Solo'
+  soloButton.title = isSolo ? 'Show all types' : `Show only ${type}`
+  soloButton.setAttribute('aria-pressed', String(isSolo))
+  soloButton.addEventListener('click', () => callbacks?.onSolo(type))
+  item.appendChild(soloButton)
+
+  return item
+}
+
+/**
+ * Replaces the name with a text field. Enter or leaving the field renames the type, Escape cancels.
+ */
+function startRename(name: HTMLElement, type: string): void {
+  const input = document.createElement('input')
+  input.type = 'text'
+  input.className = 'legend-rename'
+  input.value = type
+
+  let done = false
+  const finish = (commit: boolean) => {
+    if (done) {
+      return
+    }
+    done = true
+    const newType = input.value.trim()
+    input.replaceWith(name)
+    if (commit && newType && newType !== type) {
+      callbacks?.onRename(type, newType)
+    }
+  }
+  input.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter') {
+      finish(true)
+    } else if (event.key === 'Escape') {
+      finish(false)
+    }
+  })
+  input.addEventListener('blur', () => finish(true))
+
+  name.replaceWith(input)
+  input.focus()
+  input.select()
+}
+
+function createSectionTitle(text: string): HTMLElement {
+  const title = document.createElement('div')
+  title.className = 'legend-section-title'
+  title.textContent = text
+  return title
+}
+
+function createItem(sample: Element, text: string): HTMLElement {
+  const item = document.createElement('div')
+  item.className = 'legend-item'
+  item.appendChild(sample)
+  const name = document.createElement('span')
+  name.className = 'legend-name'
+  name.textContent = text
+  item.appendChild(name)
+  return item
+}
+
+function createCount(count: number): HTMLElement {
+  const element = document.createElement('span')
+  element.className = 'legend-count'
+  element.textContent = String(count)
+  return element
+}
+
+function createLineSample(color: string, thickness: number, dashArray: string): SVGElement {
+  const sample = document.createElementNS('http://www.w3.org/2000/svg', 'svg')
+  sample.classList.add('legend-sample')
+  sample.setAttribute('width', '30')
+  sample.setAttribute('height', '10')
+  const line = document.createElementNS('http://www.w3.org/2000/svg', 'line')
+  line.setAttribute('x1', '0')
+  line.setAttribute('y1', '5')
+  line.setAttribute('x2', '30')
+  line.setAttribute('y2', '5')
+  line.setAttribute('stroke', color)
+  line.setAttribute('stroke-width', String(thickness))
+  line.setAttribute('stroke-dasharray', dashArray)
+  sample.appendChild(line)
+  return sample
+}
+
+function createRuleSample(rule: StyleRule): Element {
+  if (rule.target === 'edge') {
+    const { color, thickness, dash } = rule.style
+    return createLineSample(
+      color || 'gray',
+      Math.min(thickness ?? 2, 8),
+      dash ? DASH_ARRAYS[dash] : ''
+    )
+  }
+  const { fill, borderColor, borderWidth, shape } = rule.style
+  const sample = document.createElement('div')
+  sample.className = 'legend-sample legend-box'
+  sample.style.backgroundColor = fill || 'transparent'
+  sample.style.border = `${borderWidth ?? 1}px solid ${borderColor || (fill ? 'transparent' : 'gray')}`
+  sample.style.borderRadius = shape === 'ellipse' ? '50%' : shape === 'rectangle' ? '0' : '3px'
+  return sample
+}
+
+function createGradient({ min, max, lowColor, highColor }: MetricGradient): HTMLElement {
+  const element = document.createElement('div')
+  element.className = 'legend-gradient'
+  const bar = document.createElement('div')
+  bar.className = 'legend-gradient-bar'
+  bar.style.background = `linear-gradient(to right, ${lowColor}, ${highColor})`
+  element.appendChild(bar)
+  const minLabel = document.createElement('span')
+  minLabel.textContent = formatValue(min)
+  element.appendChild(minLabel)
+  const maxLabel = document.createElement('span')
+  maxLabel.textContent = formatValue(max)
+  element.appendChild(maxLabel)
+  return element
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toPrecision(3)
+}
+
+/**
+ * Moves the legend when its handle is dragged, keeping it inside the container.
+ */
+function enableDragging(element: HTMLElement, handle: HTMLElement, container: HTMLElement): void {
+  handle.addEventListener('pointerdown', (event) => {
+    if ((event.target as HTMLElement).closest('button')) {
+      return
+    }
+    const start = { x: event.clientX, y: event.clientY }
+    const origin = { x: element.offsetLeft, y: element.offsetTop }
+    handle.setPointerCapture(event.pointerId)
+
+    const onMove = (moveEvent: PointerEvent) => {
+      const maxX = container.clientWidth - element.offsetWidth
+      const maxY = container.clientHeight - element.offsetHeight
+      const x = Math.max(0, Math.min(maxX, origin.x + moveEvent.clientX - start.x))
+      const y = Math.max(0, Math.min(maxY, origin.y + moveEvent.clientY - start.y))
+      element.style.left = `${x}px`
+      element.style.top = `${y}px`
+      element.style.right = 'auto'
+    }
+    const onUp = () => {
+      handle.removeEventListener('pointermove', onMove)
+      handle.removeEventListener('pointerup', onUp)
+      handle.removeEventListener('pointercancel', onUp)
+    }
+    handle.addEventListener('pointermove', onMove)
+    handle.addEventListener('pointerup', onUp)
+    handle.addEventListener('pointercancel', onUp)
+  })
+}
@@ -0,0 +1,80 @@
+export type PaletteName = 'vivid' | 'okabe-ito' | 'tol-bright' | 'tol-muted' | 'tableau'
+
+export interface ColorPalette {
+  label: string
+  /** Whether the colors can be told apart with the common forms of color blindness */
+  colorBlindSafe: boolean
+  colors: string[]
+}
+
+/**
+ * The categorical palettes the node types and edge predicates are colored with.
+ */
+export const COLOR_PALETTES: { [name in PaletteName]: ColorPalette } = {
+  vivid: {
+    label: 'Vivid',
+    colorBlindSafe: false,
+    colors: [
+      '#FF5733',
+      '#33FF57',
+      '#3357FF',
+      '#FF33A8',
+      '#FF8C33',
+      '#33FF8C',
+      '#8C33FF',
+      '#FFD633',
+      '#33FFF3',
+      '#F333FF',
+      '#33FFBD',
+      '#FF336E',
+      '#33D1FF',
+      '#FF8333',
+      '#BFFF33',
+      '#FF33F1'
+    ]
+  },
+  // Okabe and Ito, Color Universal Design
+  'okabe-ito': {
+    label: 'Okabe-Ito',
+    colorBlindSafe: true,
+    colors: ['#E69F00', '#56B4E9', '#009E73', '#F0E442', '#0072B2', '#D55E00', '#CC79A7', '#999999']
+  },
+  // Paul Tol's qualitative schemes
+  'tol-bright': {
+    label: 'Tol Bright',
+    colorBlindSafe: true,
+    colors: ['#4477AA', '#EE6677', '#228833', '#CCBB44', '#66CCEE', '#AA3377', '#BBBBBB']
+  },
+  'tol-muted': {
+    label: 'Tol Muted',
+    colorBlindSafe: true,
+    colors: [
+      '#332288',
+      '#88CCEE',
+      '#44AA99',
+      '#117733',
+      '#999933',
+      '#DDCC77',
+      '#CC6677',
+      '#882255',
+      '#AA4499',
+      '#DDDDDD'
+    ]
+  },
+  tableau: {
+    label: 'Tableau 10',
+    colorBlindSafe: false,
+    colors: [
+      '#4E79A7',
+      '#F28E2B',
+      '#E15759',
+      '#76B7B2',
+      '#59A14F',
+      '#EDC948',
+      '#B07AA1',
+      '#FF9DA7',
+      '#9C755F',
+      '#BAB0AC'
+    ]
+  }
+}
@@ -0,0 +1,182 @@
+import { CsvTable, EdgeData, GraphData, NodeData } from './GraphData'
+
+/**
+ * How to continue after problems have been found in the uploaded files:
+ * - `abort` cancels the import,
+ * - `fix` drops the invalid rows and the edges with unknown endpoints,
+ * - `placeholders` drops the invalid rows and creates placeholder nodes for unknown edge endpoints.
+ */
+export type ValidationResolution = 'abort' | 'fix' | 'placeholders'
+
+export interface ValidationIssue {
+  kind:
+    | 'parse-error'
+    | 'missing-column'
+    | 'empty-id'
+    | 'duplicate-id'
+    | 'empty-endpoint'
+    | 'dangling-endpoint'
+  fileName: string
+  /** The line in the file, counting the header row as line 1 */
+  line?: number
+  message: string
+}
+
+/**
+ * The node type of the placeholder nodes that are created for unknown edge endpoints.
+ */
+export const PLACEHOLDER_TYPE = 'Placeholder'
+
+const REQUIRED_NODE_COLUMNS = ['id', 'type']
+const REQUIRED_EDGE_COLUMNS = ['source', 'target']
+
+/**
+ * Collects the problems in the given node and edge tables.
+ */
+export function findIssues(nodesTable: CsvTable, edgesTable: CsvTable): ValidationIssue[] {
+  const issues: ValidationIssue[] = [
+    ...findMissingColumns(nodesTable, REQUIRED_NODE_COLUMNS),
+    ...findMissingColumns(edgesTable, REQUIRED_EDGE_COLUMNS),
+    ...findParseErrors(nodesTable),
+    ...findParseErrors(edgesTable)
+  ]
+  if (issues.some((issue) => issue.kind === 'missing-column')) {
+    // without the required columns, every row would be reported
+    return issues
+  }
+
+  const nodesById = new Map<string, { type: string; line: number }>()
+  forEachRow(nodesTable, (row, line) => {
+    const id = (row.id || '').trim()
+    if (!id) {
+      issues.push({ kind: 'empty-id', fileName: nodesTable.fileName, line, message: 'Empty id' })
+      return
+    }
+    const previous = nodesById.get(id)
+    if (previous) {
+      const conflict =
+        previous.type !== row.type
+          ? `with conflicting types '${previous.type}' and '${row.type}'`
+          : `(type '${row.type}')`
+      issues.push({
+        kind: 'duplicate-id',
+        fileName: nodesTable.fileName,
+        line,
+        message: `Duplicate id '${id}' ${conflict}, first defined in line ${previous.line}. The last definition is used.`
+      })
+    }
+    nodesById.set(id, { type: row.type, line })
+  })
+
+  forEachRow(edgesTable, (row, line) => {
+    for (const endpoint of REQUIRED_EDGE_COLUMNS) {
+      const id = (row[endpoint] || '').trim()
+      if (!id) {
+        issues.push({
+          kind: 'empty-endpoint',
+          fileName: edgesTable.fileName,
+          line,
+          message: `Empty ${endpoint}`
+        })
+      } else if (!nodesById.has(id)) {
+        issues.push({
+          kind: 'dangling-endpoint',
+          fileName: edgesTable.fileName,
+          line,
+          message: `Unknown ${endpoint} '${id}'`
+        })
+      }
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Returns the node and edge records without the invalid rows. Edges with unknown endpoints are
+ * either dropped or get placeholder nodes, depending on the resolution.
+ */
+export function resolveIssues(
+  nodesTable: CsvTable,
+  edgesTable: CsvTable,
+  resolution: Exclude<ValidationResolution, 'abort'>
+): GraphData {
+  const nodes: NodeData[] = []
+  const nodeIds = new Set<string>()
+  forEachRow(nodesTable, (row, _, hasParseError) => {
+    const id = (row.id || '').trim()
+    if (id && !hasParseError) {
+      nodes.push({ ...row, id, type: row.type || '' })
+      nodeIds.add(id)
+    }
+  })
+
+  const edges: EdgeData[] = []
+  forEachRow(edgesTable, (row, _, hasParseError) => {
+    const source = (row.source || '').trim()
+    const target = (row.target || '').trim()
+    if (!source || !target || hasParseError) {
+      return
+    }
+    for (const id of [source, target]) {
+      if (!nodeIds.has(id) && resolution === 'placeholders') {
+        nodes.push({ id, type: PLACEHOLDER_TYPE, label: id })
+        nodeIds.add(id)
+      }
+    }
+    if (nodeIds.has(source) && nodeIds.has(target)) {
+      edges.push({ ...row, source, target })
+    }
+  })
+
+  return { nodes, edges }
+}
+
+function findMissingColumns(table: CsvTable, requiredColumns: string[]): ValidationIssue[] {
+  return requiredColumns
+    .filter((column) => !table.fields.includes(column))
+    .map((column) => ({
+      kind: 'missing-column',
+      fileName: table.fileName,
+      line: 1,
+      message: `Missing required column '${column}'`
+    }))
+}
+
+function findParseErrors(table: CsvTable): ValidationIssue[] {
+  return table.errors
+    .filter((error) => error.row === undefined || !isBlankRow(table.rows[error.row]))
+    .map((error) => ({
+      kind: 'parse-error',
+      fileName: table.fileName,
+      line: error.row !== undefined ? getLine(error.row) : undefined,
+      message: error.message
+    }))
+}
+
+/**
+ * Calls the callback for each row that is not blank, together with its line number and whether
+ * the CSV parser reported a problem in that row.
+ */
+function forEachRow(
+  table: CsvTable,
+  callback: (row: { [column: string]: string }, line: number, hasParseError: boolean) => void
+): void {
+  const rowsWithErrors = new Set(table.errors.map((error) => error.row))
+  table.rows.forEach((row, index) => {
+    if (!isBlankRow(row)) {
+      callback(row, getLine(index), rowsWithErrors.has(index))
+    }
+  })
+}
+
+function isBlankRow(row: { [column: string]: string } | undefined): boolean {
+  return !row || Object.values(row).every((value) => value === undefined || value.trim() === '')
+}
+
+/**
+ * Converts the index of a data row to the line in the file, the header being line 1.
+ */
+function getLine(rowIndex: number): number {
+  return rowIndex + 2
+}
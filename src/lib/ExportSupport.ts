@@ -26,7 +26,7 @@
  * SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
  */
 
-import { GraphComponent, IGraph, Rect, Size, SvgExport } from 'yfiles'
+import { GraphComponent, IGraph, Matrix, Rect, Size, SvgExport } from 'yfiles'
 import { FileIoSupport } from './FileIoSupport'
 
 export enum ExportFormat {
@@ -41,13 +41,20 @@ export class ExportSupport {
    * @param graph The graph to be exported.
    * @param exportArea The area to be exported.
    * @param scale The scale of the exported graph.
+   * @param projection The projection of the view, so that the export looks like the view.
    * @returns {Promise<{size: Size, svgElement: SVGSVGElement}>}
    * @yjs:keep=viewBox
    */
-  static prepareSvg(graph: IGraph, exportArea: Rect, scale: number) {
+  static prepareSvg(
+    graph: IGraph,
+    exportArea: Rect,
+    scale: number,
+    projection: Matrix = Matrix.IDENTITY
+  ) {
     // Create a new graph control for exporting the original SVG content
     const exportControl = new GraphComponent()
     exportControl.graph = graph
+    exportControl.projection = projection
 
     exportControl.updateContentRect()
 
@@ -56,6 +63,7 @@ export class ExportSupport {
 
     // Create the exporter class
     const exporter = new SvgExport(exportArea, scale)
+    exporter.projection = projection
 
     if (window.btoa !== undefined) {
       exporter.inlineSvgImages = true
@@ -80,9 +88,15 @@ export class ExportSupport {
    * @param graph The graph to be exported.
    * @param exportArea The area to be exported.
    * @param scale The scale of the exported graph.
+   * @param projection The projection of the view.
    */
-  static saveSvg(graph: IGraph, exportArea: Rect, scale: number) {
-    ExportSupport.prepareSvg(graph, exportArea, scale).then((result) => {
+  static saveSvg(
+    graph: IGraph,
+    exportArea: Rect,
+    scale: number,
+    projection: Matrix = Matrix.IDENTITY
+  ) {
+    ExportSupport.prepareSvg(graph, exportArea, scale, projection).then((result) => {
       const documentName = 'export'
       ExportSupport.downloadSvg(
         result.svgElement,
@@ -98,9 +112,15 @@ export class ExportSupport {
    * @param graph The graph to be exported.
    * @param exportArea The area to be exported.
    * @param scale The scale of the exported graph.
+   * @param projection The projection of the view.
    */
-  static savePng(graph: IGraph, exportArea: Rect, scale: number) {
-    ExportSupport.prepareSvg(graph, exportArea, scale).then((result) => {
+  static savePng(
+    graph: IGraph,
+    exportArea: Rect,
+    scale: number,
+    projection: Matrix = Matrix.IDENTITY
+  ) {
+    ExportSupport.prepareSvg(graph, exportArea, scale, projection).then((result) => {
       const svgElement = result.svgElement
       const size = result.size
       const documentName = 'export'
@@ -116,8 +136,13 @@ export class ExportSupport {
   /**
    * Saves the graph as PDF file.
    */
-  static savePdf(graph: IGraph, exportArea: Rect, scale: number) {
-    ExportSupport.prepareSvg(graph, exportArea, scale).then((result) => {
+  static savePdf(
+    graph: IGraph,
+    exportArea: Rect,
+    scale: number,
+    projection: Matrix = Matrix.IDENTITY
+  ) {
+    ExportSupport.prepareSvg(graph, exportArea, scale, projection).then((result) => {
       const svgElement = result.svgElement.cloneNode(true) as SVGSVGElement
       const size = result.size
       const documentName = 'export'
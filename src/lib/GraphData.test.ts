@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { NodeData, resolveParentIds } from './GraphData'
+
+describe('resolveParentIds', () => {
+  it('nests the nodes in the named parents', () => {
+    const nodes: NodeData[] = [
+      { id: 'Food', type: 'Class' },
+      { id: 'Pizza', type: 'Class', parent: 'Food' },
+      { id: 'Margherita', type: 'Class', parent: 'Pizza' },
+      { id: 'Calzone', type: 'Class', parent: 'Unknown' }
+    ]
+    expect(resolveParentIds(nodes)).toEqual(
+      new Map([
+        ['Pizza', 'Food'],
+        ['Margherita', 'Pizza']
+      ])
+    )
+  })
+
+  it('keeps a node that names itself as parent at the top level', () => {
+    const nodes: NodeData[] = [
+      { id: 'Pizza', type: 'Class', parent: 'Pizza' },
+      { id: 'Margherita', type: 'Class', parent: 'Pizza' }
+    ]
+    expect(resolveParentIds(nodes)).toEqual(new Map([['Margherita', 'Pizza']]))
+  })
+
+  it('ignores the parent that would close a cycle', () => {
+    const nodes: NodeData[] = [
+      { id: 'A', type: 'Class', parent: 'B' },
+      { id: 'B', type: 'Class', parent: 'C' },
+      { id: 'C', type: 'Class', parent: 'A' }
+    ]
+    expect(resolveParentIds(nodes)).toEqual(
+      new Map([
+        ['A', 'B'],
+        ['B', 'C']
+      ])
+    )
+  })
+})
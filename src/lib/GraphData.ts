@@ -0,0 +1,75 @@
+/**
+ * A node record as it is read from a nodes CSV or produced by one of the importers. Any additional
+ * columns or literal properties are kept as further string properties.
+ */
+export interface NodeData {
+  id: string
+  type: string
+  label?: string
+  /** The id of the node this node is nested in. Nodes that are named as parent become group nodes. */
+  parent?: string
+  [property: string]: string | undefined
+}
+
+/**
+ * An edge record. The relationship type may be given in a `predicate`, `type` or `label` column.
+ */
+export interface EdgeData {
+  source: string
+  target: string
+  predicate?: string
+  type?: string
+  label?: string
+}
+
+/**
+ * Returns the relationship type of an edge record. The edges CSV may name the column
+ * `predicate`, `type` or `label`.
+ */
+export function getEdgePredicate(data: EdgeData): string {
+  return (data.predicate || data.type || data.label || '').trim()
+}
+
+/**
+ * Returns the parent id of each node record whose `parent` names another record. A record that
+ * names itself as parent stays at the top level, and so does the record that would close a cycle,
+ * going by the order of the records.
+ */
+export function resolveParentIds(nodes: NodeData[]): Map<string, string> {
+  const ids = new Set(nodes.map((node) => node.id))
+  const parentIds = new Map<string, string>()
+  const isAncestor = (ancestorId: string, id: string) => {
+    for (let current = parentIds.get(id); current !== undefined; current = parentIds.get(current)) {
+      if (current === ancestorId) {
+        return true
+      }
+    }
+    return false
+  }
+  for (const { id, parent } of nodes) {
+    if (parent && parent !== id && ids.has(parent) && !isAncestor(id, parent)) {
+      parentIds.set(id, parent)
+    }
+  }
+  return parentIds
+}
+
+/**
+ * The node and edge records of a data set that is ready to be handed to the graph builder.
+ */
+export interface GraphData {
+  nodes: NodeData[]
+  edges: EdgeData[]
+}
+
+/**
+ * A parsed CSV upload. Rows keep their position in the file, so that problems can be reported
+ * with line numbers.
+ */
+export interface CsvTable {
+  fileName: string
+  /** The column names from the header row */
+  fields: string[]
+  rows: { [column: string]: string }[]
+  errors: { row?: number; message: string }[]
+}
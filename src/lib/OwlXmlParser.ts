@@ -0,0 +1,200 @@
+import {
+  OWL_NS,
+  RDF_TYPE,
+  RDFS_NS,
+  RdfDocument,
+  RdfTerm,
+  Triple,
+  WELL_KNOWN_PREFIXES
+} from './RdfParser'
+import { getInheritedXmlAttribute, parseXml, resolveIri } from './RdfXmlParser'
+
+/**
+ * Entity declarations and the `rdf:type` they map to.
+ */
+const DECLARATION_TYPES: { [element: string]: string } = {
+  Class: OWL_NS + 'Class',
+  NamedIndividual: OWL_NS + 'NamedIndividual',
+  ObjectProperty: OWL_NS + 'ObjectProperty',
+  DataProperty: OWL_NS + 'DatatypeProperty',
+  AnnotationProperty: OWL_NS + 'AnnotationProperty',
+  Datatype: RDFS_NS + 'Datatype'
+}
+
+/**
+ * Parses an OWL/XML document (https://www.w3.org/TR/owl2-xml-serialization/) and maps the axioms
+ * that can be expressed between named entities to their RDF triples. Axioms on anonymous class
+ * expressions are skipped.
+ */
+export function parseOwlXml(text: string, baseIri = ''): RdfDocument {
+  return new OwlXmlParser(baseIri).parse(parseXml(text))
+}
+
+/**
+ * Returns whether the given XML document is an OWL/XML ontology.
+ */
+export function isOwlXml(xml: Document): boolean {
+  const root = xml.documentElement
+  return root.namespaceURI === OWL_NS && root.localName === 'Ontology'
+}
+
+class OwlXmlParser {
+  private readonly triples: Triple[] = []
+  private readonly prefixes: { [prefix: string]: string } = { ...WELL_KNOWN_PREFIXES }
+
+  constructor(private base: string) {}
+
+  parse(xml: Document): RdfDocument {
+    if (!isOwlXml(xml)) {
+      throw new Error('The document is not an OWL/XML ontology')
+    }
+    const root = xml.documentElement
+    this.base = getInheritedXmlAttribute(root, 'base') || root.getAttribute('ontologyIRI') || ''
+
+    for (const child of owlChildren(root)) {
+      if (child.localName === 'Prefix') {
+        this.prefixes[child.getAttribute('name') || ''] = child.getAttribute('IRI') || ''
+      }
+    }
+    for (const axiom of owlChildren(root)) {
+      this.parseAxiom(axiom)
+    }
+    return { triples: this.triples, prefixes: this.prefixes }
+  }
+
+  private parseAxiom(axiom: Element): void {
+    const args = owlChildren(axiom)
+    switch (axiom.localName) {
+      case 'Declaration': {
+        const entity = args[0]
+        if (entity && DECLARATION_TYPES[entity.localName]) {
+          this.addTriple(
+            this.getEntity(entity),
+            RDF_TYPE,
+            namedNode(DECLARATION_TYPES[entity.localName])
+          )
+        }
+        break
+      }
+      case 'SubClassOf':
+        this.addEntityTriple(args[0], RDFS_NS + 'subClassOf', args[1], 'Class')
+        break
+      case 'ClassAssertion':
+        this.addEntityTriple(args[1], RDF_TYPE, args[0], 'Class')
+        break
+      case 'ObjectPropertyAssertion':
+        if (args[0] && isNamed(args[0], 'ObjectProperty')) {
+          this.addEntityTriple(args[1], this.getIri(args[0]), args[2], 'NamedIndividual')
+        }
+        break
+      case 'DataPropertyAssertion':
+        if (args[0] && isNamed(args[0], 'DataProperty') && args[1] && args[2]) {
+          this.addTriple(this.getEntity(args[1]), this.getIri(args[0]), this.getLiteral(args[2]))
+        }
+        break
+      case 'ObjectPropertyDomain':
+      case 'ObjectPropertyRange': {
+        const predicate = axiom.localName === 'ObjectPropertyDomain' ? 'domain' : 'range'
+        this.addEntityTriple(args[0], RDFS_NS + predicate, args[1], 'Class')
+        break
+      }
+      case 'AnnotationAssertion':
+        this.parseAnnotationAssertion(args)
+        break
+    }
+  }
+
+  private parseAnnotationAssertion(args: Element[]): void {
+    const [property, subject, value] = args
+    if (!property || !subject || !value) {
+      return
+    }
+    const subjectTerm = namedNode(this.expandIri(subject.textContent || '', subject.localName))
+    const object =
+      value.localName === 'Literal'
+        ? this.getLiteral(value)
+        : namedNode(this.expandIri(value.textContent || '', value.localName))
+    this.addTriple(subjectTerm, this.getIri(property), object)
+  }
+
+  /**
+   * Adds a triple between two named entities. Anonymous expressions in either position are skipped.
+   */
+  private addEntityTriple(
+    subject: Element | undefined,
+    predicate: string,
+    object: Element | undefined,
+    objectKind: string
+  ): void {
+    if (subject && object && isNamed(object, objectKind) && hasIri(subject)) {
+      this.addTriple(this.getEntity(subject), predicate, this.getEntity(object))
+    }
+  }
+
+  private getEntity(element: Element): RdfTerm {
+    if (element.localName === 'AnonymousIndividual') {
+      return { termType: 'BlankNode', value: `_:${element.getAttribute('nodeID')}` }
+    }
+    return namedNode(this.getIri(element))
+  }
+
+  private getIri(element: Element): string {
+    const iri = element.getAttribute('IRI')
+    if (iri !== null) {
+      return resolveIri(iri, this.base)
+    }
+    return this.expandIri(element.getAttribute('abbreviatedIRI') || '', 'AbbreviatedIRI')
+  }
+
+  /**
+   * Expands the content of an `IRI` or `AbbreviatedIRI` element.
+   */
+  private expandIri(value: string, kind: string): string {
+    value = value.trim()
+    if (kind !== 'AbbreviatedIRI') {
+      return resolveIri(value, this.base)
+    }
+    const colon = value.indexOf(':')
+    const prefix = value.substring(0, colon)
+    const namespace = this.prefixes[prefix]
+    if (colon === -1 || namespace === undefined) {
+      throw new Error(`Undeclared prefix in abbreviated IRI '${value}'`)
+    }
+    return namespace + value.substring(colon + 1)
+  }
+
+  private getLiteral(element: Element): RdfTerm {
+    const datatype = element.getAttribute('datatypeIRI')
+    const language = getInheritedXmlAttribute(element, 'lang')
+    return {
+      termType: 'Literal',
+      value: element.textContent || '',
+      ...(datatype ? { datatype: resolveIri(datatype, this.base) } : {}),
+      ...(language ? { language } : {})
+    }
+  }
+
+  private addTriple(subject: RdfTerm, predicate: string, object: RdfTerm): void {
+    this.triples.push({ subject, predicate: namedNode(predicate), object })
+  }
+}
+
+function owlChildren(element: Element): Element[] {
+  return Array.from(element.children).filter((child) => child.namespaceURI === OWL_NS)
+}
+
+function isNamed(element: Element, kind: string): boolean {
+  return element.localName === kind && hasIri(element)
+}
+
+function hasIri(element: Element): boolean {
+  return (
+    element.hasAttribute('IRI') ||
+    element.hasAttribute('abbreviatedIRI') ||
+    element.localName === 'AnonymousIndividual'
+  )
+}
+
+function namedNode(value: string): RdfTerm {
+  return { termType: 'NamedNode', value }
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { parseTurtle } from './RdfParser'
+
+describe('parseTurtle', () => {
+  it('keeps labeled and anonymous blank nodes apart', () => {
+    const { triples } = parseTurtle(
+      [
+        '@prefix ex: <http://example.org/> .',
+        '_:b0 ex:name "labeled" .',
+        '[] ex:name "anonymous" .'
+      ].join('\n')
+    )
+
+    const subjects = triples.map((triple) => triple.subject.value)
+    expect(subjects[0]).toBe('_:b0')
+    expect(subjects[1]).not.toBe(subjects[0])
+  })
+})
@@ -0,0 +1,490 @@
+export const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#'
+export const RDFS_NS = 'http://www.w3.org/2000/01/rdf-schema#'
+export const OWL_NS = 'http://www.w3.org/2002/07/owl#'
+export const XSD_NS = 'http://www.w3.org/2001/XMLSchema#'
+
+export const RDF_TYPE = RDF_NS + 'type'
+export const RDFS_LABEL = RDFS_NS + 'label'
+
+/**
+ * Namespaces that are available in every document, even if they are not declared.
+ */
+export const WELL_KNOWN_PREFIXES: { [prefix: string]: string } = {
+  rdf: RDF_NS,
+  rdfs: RDFS_NS,
+  owl: OWL_NS,
+  xsd: XSD_NS
+}
+
+export type RdfTerm =
+  | { termType: 'NamedNode'; value: string }
+  | { termType: 'BlankNode'; value: string }
+  | { termType: 'Literal'; value: string; language?: string; datatype?: string }
+
+export interface Triple {
+  subject: RdfTerm
+  predicate: RdfTerm
+  object: RdfTerm
+}
+
+export interface RdfDocument {
+  triples: Triple[]
+  /** The namespace prefixes declared in the document, e.g. `{ owl: 'http://www.w3.org/2002/07/owl#' }` */
+  prefixes: { [prefix: string]: string }
+}
+
+/**
+ * Parses a Turtle document. Since N-Triples is a subset of Turtle, N-Triples documents are
+ * supported as well.
+ * @param text The document content.
+ * @param baseIri The IRI that relative IRIs in the document are resolved against.
+ */
+export function parseTurtle(text: string, baseIri = ''): RdfDocument {
+  return new TurtleParser(text, baseIri).parse()
+}
+
+/**
+ * Returns a short, human-readable form of the given IRI: a prefixed name if one of the given
+ * namespaces matches, otherwise the fragment or last path segment.
+ */
+export function compactIri(iri: string, prefixes: { [prefix: string]: string }): string {
+  let bestPrefix: string | null = null
+  for (const prefix in prefixes) {
+    const namespace = prefixes[prefix]
+    if (
+      namespace &&
+      iri.startsWith(namespace) &&
+      iri.length > namespace.length &&
+      (bestPrefix === null || namespace.length > prefixes[bestPrefix].length)
+    ) {
+      bestPrefix = prefix
+    }
+  }
+  if (bestPrefix !== null) {
+    const localName = iri.substring(prefixes[bestPrefix].length)
+    // names in the default namespace are shown without the empty prefix
+    return bestPrefix ? `${bestPrefix}:${localName}` : localName
+  }
+  const match = /[#/]([^#/]+)$/.exec(iri)
+  return match ? match[1] : iri
+}
+
+/**
+ * A recursive descent parser for the Turtle grammar (https://www.w3.org/TR/turtle/).
+ */
+class TurtleParser {
+  private pos = 0
+  private line = 1
+  private blankNodeCounter = 0
+  private readonly triples: Triple[] = []
+  private readonly prefixes: { [prefix: string]: string } = {}
+
+  constructor(
+    private readonly text: string,
+    private base: string
+  ) {}
+
+  parse(): RdfDocument {
+    this.skipWhitespace()
+    while (this.pos < this.text.length) {
+      this.parseStatement()
+      this.skipWhitespace()
+    }
+    return {
+      triples: this.triples,
+      prefixes: { ...WELL_KNOWN_PREFIXES, ...this.prefixes }
+    }
+  }
+
+  private parseStatement(): void {
+    if (this.peek() === '@') {
+      const directive = this.readWhile(/[@A-Za-z]/)
+      if (directive === '@prefix') {
+        this.parsePrefix()
+      } else if (directive === '@base') {
+        this.parseBase()
+      } else {
+        this.fail(`Unknown directive '${directive}'`)
+      }
+      this.expect('.')
+      return
+    }
+    // SPARQL-style directives are not terminated by a dot
+    const keyword = this.text.substr(this.pos, 7)
+    if (/^PREFIX\s/i.test(keyword)) {
+      this.pos += 6
+      this.parsePrefix()
+      return
+    }
+    if (/^BASE\s/i.test(keyword)) {
+      this.pos += 4
+      this.parseBase()
+      return
+    }
+    this.parseTriples()
+    this.expect('.')
+  }
+
+  private parsePrefix(): void {
+    this.skipWhitespace()
+    const prefix = this.readWhile(/[^\s:]/)
+    this.expect(':')
+    this.skipWhitespace()
+    this.prefixes[prefix] = this.readIriRef()
+  }
+
+  private parseBase(): void {
+    this.skipWhitespace()
+    this.base = this.readIriRef()
+  }
+
+  private parseTriples(): void {
+    this.skipWhitespace()
+    if (this.peek() === '[') {
+      const subject = this.parseBlankNodePropertyList()
+      this.skipWhitespace()
+      if (this.peek() !== '.') {
+        this.parsePredicateObjectList(subject)
+      }
+      return
+    }
+    const subject = this.parseSubject()
+    this.parsePredicateObjectList(subject)
+  }
+
+  private parseSubject(): RdfTerm {
+    this.skipWhitespace()
+    const c = this.peek()
+    if (c === '(') {
+      return this.parseCollection()
+    }
+    if (c === '_' && this.text[this.pos + 1] === ':') {
+      return this.readBlankNodeLabel()
+    }
+    return this.readIri()
+  }
+
+  private parsePredicateObjectList(subject: RdfTerm): void {
+    for (;;) {
+      this.skipWhitespace()
+      const predicate = this.parseVerb()
+      this.parseObjectList(subject, predicate)
+      this.skipWhitespace()
+      if (this.peek() !== ';') {
+        return
+      }
+      // consume any number of semicolons, a trailing one is allowed
+      while (this.peek() === ';') {
+        this.pos++
+        this.skipWhitespace()
+      }
+      const c = this.peek()
+      if (c === '.' || c === ']' || c === '') {
+        return
+      }
+    }
+  }
+
+  private parseVerb(): RdfTerm {
+    if (this.peek() === 'a' && /[\s<\[("_]/.test(this.text[this.pos + 1] || ' ')) {
+      this.pos++
+      return { termType: 'NamedNode', value: RDF_TYPE }
+    }
+    return this.readIri()
+  }
+
+  private parseObjectList(subject: RdfTerm, predicate: RdfTerm): void {
+    for (;;) {
+      const object = this.parseObject()
+      this.triples.push({ subject, predicate, object })
+      this.skipWhitespace()
+      if (this.peek() !== ',') {
+        return
+      }
+      this.pos++
+    }
+  }
+
+  private parseObject(): RdfTerm {
+    this.skipWhitespace()
+    const c = this.peek()
+    if (c === '[') {
+      return this.parseBlankNodePropertyList()
+    }
+    if (c === '(') {
+      return this.parseCollection()
+    }
+    if (c === '_' && this.text[this.pos + 1] === ':') {
+      return this.readBlankNodeLabel()
+    }
+    if (c === '"' || c === "'") {
+      return this.parseRdfLiteral()
+    }
+    if (/[0-9+\-.]/.test(c)) {
+      return this.parseNumericLiteral()
+    }
+    const rest = this.text.substr(this.pos, 6)
+    if (/^true(?![\w:-])/.test(rest)) {
+      this.pos += 4
+      return { termType: 'Literal', value: 'true', datatype: XSD_NS + 'boolean' }
+    }
+    if (/^false(?![\w:-])/.test(rest)) {
+      this.pos += 5
+      return { termType: 'Literal', value: 'false', datatype: XSD_NS + 'boolean' }
+    }
+    return this.readIri()
+  }
+
+  private parseBlankNodePropertyList(): RdfTerm {
+    this.expect('[')
+    const node = this.createBlankNode()
+    this.skipWhitespace()
+    if (this.peek() !== ']') {
+      this.parsePredicateObjectList(node)
+    }
+    this.expect(']')
+    return node
+  }
+
+  private parseCollection(): RdfTerm {
+    this.expect('(')
+    const items: RdfTerm[] = []
+    this.skipWhitespace()
+    while (this.peek() !== ')') {
+      if (this.peek() === '') {
+        this.fail("Unterminated collection, expected ')'")
+      }
+      items.push(this.parseObject())
+      this.skipWhitespace()
+    }
+    this.pos++
+
+    let list: RdfTerm = { termType: 'NamedNode', value: RDF_NS + 'nil' }
+    for (let i = items.length - 1; i >= 0; i--) {
+      const cell = this.createBlankNode()
+      this.triples.push({
+        subject: cell,
+        predicate: { termType: 'NamedNode', value: RDF_NS + 'first' },
+        object: items[i]
+      })
+      this.triples.push({
+        subject: cell,
+        predicate: { termType: 'NamedNode', value: RDF_NS + 'rest' },
+        object: list
+      })
+      list = cell
+    }
+    return list
+  }
+
+  private parseRdfLiteral(): RdfTerm {
+    const value = this.readString()
+    if (this.peek() === '@') {
+      this.pos++
+      const language = this.readWhile(/[A-Za-z0-9-]/)
+      return { termType: 'Literal', value, language }
+    }
+    if (this.text.startsWith('^^', this.pos)) {
+      this.pos += 2
+      const datatype = this.readIri().value
+      return { termType: 'Literal', value, datatype }
+    }
+    return { termType: 'Literal', value }
+  }
+
+  private parseNumericLiteral(): RdfTerm {
+    const rest = this.text.substring(this.pos, this.pos + 100)
+    const patterns: [RegExp, string][] = [
+      [/^[+-]?(\d+\.\d*[eE][+-]?\d+|\.\d+[eE][+-]?\d+|\d+[eE][+-]?\d+)/, 'double'],
+      [/^[+-]?\d*\.\d+/, 'decimal'],
+      [/^[+-]?\d+/, 'integer']
+    ]
+    for (const [pattern, type] of patterns) {
+      const match = pattern.exec(rest)
+      if (match) {
+        this.pos += match[0].length
+        return { termType: 'Literal', value: match[0], datatype: XSD_NS + type }
+      }
+    }
+    return this.fail('Invalid numeric literal')
+  }
+
+  private readString(): string {
+    const quote = this.peek()
+    const long = this.text.startsWith(quote.repeat(3), this.pos)
+    const delimiter = long ? quote.repeat(3) : quote
+    this.pos += delimiter.length
+    let value = ''
+    for (;;) {
+      if (this.pos >= this.text.length) {
+        this.fail('Unterminated string literal')
+      }
+      if (this.text.startsWith(delimiter, this.pos)) {
+        this.pos += delimiter.length
+        return value
+      }
+      const c = this.text[this.pos]
+      if (c === '\\') {
+        value += this.readEscape()
+        continue
+      }
+      if (c === '\n') {
+        if (!long) {
+          this.fail('Line break in short string literal')
+        }
+        this.line++
+      }
+      value += c
+      this.pos++
+    }
+  }
+
+  private readEscape(): string {
+    const c = this.text[this.pos + 1]
+    this.pos += 2
+    switch (c) {
+      case 't':
+        return '\t'
+      case 'b':
+        return '\b'
+      case 'n':
+        return '\n'
+      case 'r':
+        return '\r'
+      case 'f':
+        return '\f'
+      case 'u':
+      case 'U': {
+        const length = c === 'u' ? 4 : 8
+        const hex = this.text.substr(this.pos, length)
+        if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) {
+          this.fail(`Invalid unicode escape '\\${c}${hex}'`)
+        }
+        this.pos += length
+        return String.fromCodePoint(parseInt(hex, 16))
+      }
+      case '"':
+      case "'":
+      case '\\':
+        return c
+      default:
+        return this.fail(`Invalid escape sequence '\\${c}'`)
+    }
+  }
+
+  private readIri(): RdfTerm {
+    this.skipWhitespace()
+    if (this.peek() === '<') {
+      return { termType: 'NamedNode', value: this.readIriRef() }
+    }
+    return { termType: 'NamedNode', value: this.readPrefixedName() }
+  }
+
+  private readIriRef(): string {
+    this.expect('<')
+    let iri = ''
+    while (this.peek() !== '>') {
+      const c = this.peek()
+      if (c === '' || /\s/.test(c)) {
+        this.fail("Unterminated IRI, expected '>'")
+      }
+      iri += c === '\\' ? this.readEscape() : c
+      if (c !== '\\') {
+        this.pos++
+      }
+    }
+    this.pos++
+    return this.resolve(iri)
+  }
+
+  private readPrefixedName(): string {
+    const start = this.pos
+    let name = this.readWhile(/[^\s;,()[\]"'<>#]/)
+    // a local name may contain dots, but must not end with one: that one terminates the statement
+    while (name.endsWith('.')) {
+      name = name.substring(0, name.length - 1)
+      this.pos--
+    }
+    const colon = name.indexOf(':')
+    if (colon === -1) {
+      this.pos = start
+      return this.fail(`Expected an IRI but found '${name || this.peek()}'`)
+    }
+    const prefix = name.substring(0, colon)
+    const namespace = prefix in this.prefixes ? this.prefixes[prefix] : WELL_KNOWN_PREFIXES[prefix]
+    if (namespace === undefined) {
+      this.pos = start
+      return this.fail(`Undeclared prefix '${prefix}:'`)
+    }
+    // drop the backslashes of escaped reserved characters in local names
+    return namespace + name.substring(colon + 1).replace(/\\(.)/g, '$1')
+  }
+
+  private readBlankNodeLabel(): RdfTerm {
+    this.pos += 2
+    let label = this.readWhile(/[^\s;,()[\]"'<>#]/)
+    while (label.endsWith('.')) {
+      label = label.substring(0, label.length - 1)
+      this.pos--
+    }
+    return { termType: 'BlankNode', value: `_:${label}` }
+  }
+
+  private createBlankNode(): RdfTerm {
+    // labels in the document end at a '#', so generated ids cannot clash with them
+    return { termType: 'BlankNode', value: `_:genid#${this.blankNodeCounter++}` }
+  }
+
+  private resolve(iri: string): string {
+    if (!this.base || /^[a-z][a-z0-9+.-]*:/i.test(iri)) {
+      return iri
+    }
+    try {
+      return new URL(iri, this.base).href
+    } catch (e) {
+      return iri
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length) {
+      const c = this.text[this.pos]
+      if (c === '\n') {
+        this.line++
+        this.pos++
+      } else if (c === ' ' || c === '\t' || c === '\r') {
+        this.pos++
+      } else if (c === '#') {
+        while (this.pos < this.text.length && this.text[this.pos] !== '\n') {
+          this.pos++
+        }
+      } else {
+        return
+      }
+    }
+  }
+
+  private readWhile(pattern: RegExp): string {
+    const start = this.pos
+    while (this.pos < this.text.length && pattern.test(this.text[this.pos])) {
+      this.pos++
+    }
+    return this.text.substring(start, this.pos)
+  }
+
+  private peek(): string {
+    return this.pos < this.text.length ? this.text[this.pos] : ''
+  }
+
+  private expect(c: string): void {
+    this.skipWhitespace()
+    if (this.peek() !== c) {
+      this.fail(`Expected '${c}' but found '${this.peek() || 'end of file'}'`)
+    }
+    this.pos++
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Line ${this.line}: ${message}`)
+  }
+}
@@ -0,0 +1,247 @@
+import { RDF_NS, RdfDocument, RdfTerm, Triple, WELL_KNOWN_PREFIXES } from './RdfParser'
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace'
+
+/**
+ * Attributes of the RDF namespace that carry syntax instead of property values.
+ */
+const RDF_SYNTAX_ATTRIBUTES = ['about', 'ID', 'nodeID', 'resource', 'datatype', 'parseType']
+
+/**
+ * Parses an RDF/XML document (https://www.w3.org/TR/rdf-syntax-grammar/).
+ * @param text The document content.
+ * @param baseIri The IRI that relative IRIs in the document are resolved against, unless the
+ *   document declares an `xml:base` itself.
+ */
+export function parseRdfXml(text: string, baseIri = ''): RdfDocument {
+  return new RdfXmlParser(baseIri).parse(parseXml(text))
+}
+
+/**
+ * Parses the given text as XML and throws an error if it is not well-formed.
+ */
+export function parseXml(text: string): Document {
+  const xml = new DOMParser().parseFromString(text, 'application/xml')
+  const error = xml.getElementsByTagName('parsererror')[0]
+  if (error) {
+    throw new Error(`Invalid XML: ${error.textContent}`)
+  }
+  return xml
+}
+
+/**
+ * Resolves a possibly relative IRI against the given base.
+ */
+export function resolveIri(iri: string, base: string): string {
+  if (!base || /^[a-z][a-z0-9+.-]*:/i.test(iri)) {
+    return iri
+  }
+  if (iri.startsWith('#')) {
+    return base.replace(/#.*$/, '') + iri
+  }
+  try {
+    return new URL(iri, base).href
+  } catch (e) {
+    return iri
+  }
+}
+
+class RdfXmlParser {
+  private blankNodeCounter = 0
+  private readonly triples: Triple[] = []
+
+  constructor(private readonly base: string) {}
+
+  parse(xml: Document): RdfDocument {
+    const root = xml.documentElement
+    const prefixes: { [prefix: string]: string } = { ...WELL_KNOWN_PREFIXES }
+    for (const attribute of Array.from(root.attributes)) {
+      if (attribute.name.startsWith('xmlns:')) {
+        prefixes[attribute.name.substring(6)] = attribute.value
+      }
+    }
+
+    if (root.namespaceURI === RDF_NS && root.localName === 'RDF') {
+      for (const child of Array.from(root.children)) {
+        this.parseNodeElement(child)
+      }
+    } else {
+      this.parseNodeElement(root)
+    }
+    return { triples: this.triples, prefixes }
+  }
+
+  private parseNodeElement(element: Element): RdfTerm {
+    const subject = this.getSubject(element)
+
+    if (!isRdf(element, 'Description')) {
+      this.addTriple(subject, RDF_NS + 'type', {
+        termType: 'NamedNode',
+        value: getElementIri(element)
+      })
+    }
+    this.parsePropertyAttributes(element, subject)
+
+    let listIndex = 1
+    for (const child of Array.from(element.children)) {
+      // rdf:li is an abbreviation for the container membership properties rdf:_1, rdf:_2, ...
+      const predicate = isRdf(child, 'li') ? `${RDF_NS}_${listIndex++}` : getElementIri(child)
+      this.parsePropertyElement(subject, predicate, child)
+    }
+    return subject
+  }
+
+  private parsePropertyElement(subject: RdfTerm, predicate: string, element: Element): void {
+    const parseType = getRdfAttribute(element, 'parseType')
+    const resource = getRdfAttribute(element, 'resource')
+    const nodeId = getRdfAttribute(element, 'nodeID')
+
+    if (parseType === 'Resource') {
+      const object = this.createBlankNode()
+      this.addTriple(subject, predicate, object)
+      for (const child of Array.from(element.children)) {
+        this.parsePropertyElement(object, getElementIri(child), child)
+      }
+    } else if (parseType === 'Literal') {
+      const content = Array.from(element.childNodes)
+        .map((node) => new XMLSerializer().serializeToString(node))
+        .join('')
+      this.addTriple(subject, predicate, {
+        termType: 'Literal',
+        value: content,
+        datatype: RDF_NS + 'XMLLiteral'
+      })
+    } else if (parseType === 'Collection') {
+      const items = Array.from(element.children).map((child) => this.parseNodeElement(child))
+      this.addTriple(subject, predicate, this.createList(items))
+    } else if (element.children.length > 0) {
+      this.addTriple(subject, predicate, this.parseNodeElement(element.children[0]))
+    } else if (resource !== null || nodeId !== null || hasPropertyAttributes(element)) {
+      const object: RdfTerm =
+        resource !== null
+          ? { termType: 'NamedNode', value: this.resolve(element, resource) }
+          : nodeId !== null
+            ? { termType: 'BlankNode', value: `_:${nodeId}` }
+            : this.createBlankNode()
+      this.addTriple(subject, predicate, object)
+      this.parsePropertyAttributes(element, object)
+    } else {
+      const language = getLanguage(element)
+      const datatype = getRdfAttribute(element, 'datatype')
+      this.addTriple(subject, predicate, {
+        termType: 'Literal',
+        value: element.textContent || '',
+        ...(datatype ? { datatype: this.resolve(element, datatype) } : {}),
+        ...(language && !datatype ? { language } : {})
+      })
+    }
+  }
+
+  private parsePropertyAttributes(element: Element, subject: RdfTerm): void {
+    for (const attribute of Array.from(element.attributes)) {
+      if (
+        !attribute.namespaceURI ||
+        attribute.namespaceURI === XML_NS ||
+        attribute.name.startsWith('xmlns') ||
+        (attribute.namespaceURI === RDF_NS && RDF_SYNTAX_ATTRIBUTES.includes(attribute.localName))
+      ) {
+        continue
+      }
+      const predicate = attribute.namespaceURI + attribute.localName
+      if (predicate === RDF_NS + 'type') {
+        this.addTriple(subject, predicate, {
+          termType: 'NamedNode',
+          value: this.resolve(element, attribute.value)
+        })
+      } else {
+        const language = getLanguage(element)
+        this.addTriple(subject, predicate, {
+          termType: 'Literal',
+          value: attribute.value,
+          ...(language ? { language } : {})
+        })
+      }
+    }
+  }
+
+  private getSubject(element: Element): RdfTerm {
+    const about = getRdfAttribute(element, 'about')
+    if (about !== null) {
+      return { termType: 'NamedNode', value: this.resolve(element, about) }
+    }
+    const id = getRdfAttribute(element, 'ID')
+    if (id !== null) {
+      return { termType: 'NamedNode', value: this.resolve(element, `#${id}`) }
+    }
+    const nodeId = getRdfAttribute(element, 'nodeID')
+    if (nodeId !== null) {
+      return { termType: 'BlankNode', value: `_:${nodeId}` }
+    }
+    return this.createBlankNode()
+  }
+
+  private createList(items: RdfTerm[]): RdfTerm {
+    let list: RdfTerm = { termType: 'NamedNode', value: RDF_NS + 'nil' }
+    for (let i = items.length - 1; i >= 0; i--) {
+      const cell = this.createBlankNode()
+      this.addTriple(cell, RDF_NS + 'first', items[i])
+      this.addTriple(cell, RDF_NS + 'rest', list)
+      list = cell
+    }
+    return list
+  }
+
+  private createBlankNode(): RdfTerm {
+    // rdf:nodeID values are XML names without '#', so generated ids cannot clash with them
+    return { termType: 'BlankNode', value: `_:genid#${this.blankNodeCounter++}` }
+  }
+
+  private addTriple(subject: RdfTerm, predicate: string, object: RdfTerm): void {
+    this.triples.push({ subject, predicate: { termType: 'NamedNode', value: predicate }, object })
+  }
+
+  private resolve(element: Element, iri: string): string {
+    return resolveIri(iri, getInheritedXmlAttribute(element, 'base') || this.base)
+  }
+}
+
+function isRdf(element: Element, localName: string): boolean {
+  return element.namespaceURI === RDF_NS && element.localName === localName
+}
+
+function getRdfAttribute(element: Element, localName: string): string | null {
+  return element.hasAttributeNS(RDF_NS, localName)
+    ? element.getAttributeNS(RDF_NS, localName)
+    : null
+}
+
+function getElementIri(element: Element): string {
+  return (element.namespaceURI || '') + element.localName
+}
+
+function getLanguage(element: Element): string | null {
+  return getInheritedXmlAttribute(element, 'lang')
+}
+
+/**
+ * Returns the value of the `xml:` attribute with the given name on the element or its closest
+ * ancestor that declares it.
+ */
+export function getInheritedXmlAttribute(element: Element, localName: string): string | null {
+  for (let scope: Element | null = element; scope; scope = scope.parentElement) {
+    if (scope.hasAttributeNS(XML_NS, localName)) {
+      return scope.getAttributeNS(XML_NS, localName)
+    }
+  }
+  return null
+}
+
+function hasPropertyAttributes(element: Element): boolean {
+  return Array.from(element.attributes).some(
+    (attribute) =>
+      attribute.namespaceURI !== null &&
+      attribute.namespaceURI !== XML_NS &&
+      !attribute.name.startsWith('xmlns') &&
+      !(attribute.namespaceURI === RDF_NS && RDF_SYNTAX_ATTRIBUTES.includes(attribute.localName))
+  )
+}
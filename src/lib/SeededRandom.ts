@@ -0,0 +1,41 @@
+/**
+ * Returns a pseudo-random number generator (mulberry32) that yields the same sequence of numbers
+ * in [0, 1) for the same seed.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Returns a generator for a single item, seeded with the hash of the seed and the item id. The
+ * numbers of an item do not depend on the other items or on the order in which they are created.
+ */
+export function createItemRandom(seed: number, itemId: string): () => number {
+  return createSeededRandom(hashStrings([itemId], seed))
+}
+
+/**
+ * Computes a 32-bit FNV-1a hash of the given strings. Each string is terminated, so that
+ * `['ab', 'c']` and `['a', 'bc']` have different hashes.
+ */
+export function hashStrings(values: Iterable<string>, hash = 0x811c9dc5): number {
+  for (const value of values) {
+    for (let i = 0; i <= value.length; i++) {
+      // the position after the last character stands for the terminator
+      hash ^= i < value.length ? value.charCodeAt(i) : 0
+      hash = Math.imul(hash, 0x01000193)
+    }
+  }
+  return hash >>> 0
+}
+
+export function toHex(hash: number): string {
+  return hash.toString(16).padStart(8, '0')
+}
@@ -0,0 +1,106 @@
+/**
+ * A dataset as it is kept in the browser storage: the project file content of a loaded graph.
+ */
+export interface StoredDataset {
+  /** The name of the dataset, which also identifies it in the list of recent datasets */
+  name: string
+  savedAt: number
+  /** The content of a project file, see `project-io.ts` */
+  project: string
+}
+
+const DB_NAME = 'ontology-viewer'
+const DB_VERSION = 1
+const SESSION_STORE = 'session'
+const RECENT_STORE = 'recent'
+const SESSION_KEY = 'current'
+
+/**
+ * The number of datasets that are kept in the list of recent datasets.
+ */
+export const MAX_RECENT_DATASETS = 8
+
+/**
+ * Keeps the current session and the recently opened datasets in IndexedDB.
+ */
+export class SessionStore {
+  private database: Promise<IDBDatabase> | null = null
+
+  /**
+   * Stores the dataset as current session and adds it to (or updates it in) the recent datasets.
+   */
+  async save(dataset: StoredDataset): Promise<void> {
+    const transaction = (await this.open()).transaction([SESSION_STORE, RECENT_STORE], 'readwrite')
+    transaction.objectStore(SESSION_STORE).put(dataset, SESSION_KEY)
+    transaction.objectStore(RECENT_STORE).put(dataset)
+    await completion(transaction)
+    await this.pruneRecent()
+  }
+
+  async loadSession(): Promise<StoredDataset | null> {
+    const transaction = (await this.open()).transaction(SESSION_STORE, 'readonly')
+    const dataset = await request<StoredDataset | undefined>(
+      transaction.objectStore(SESSION_STORE).get(SESSION_KEY)
+    )
+    return dataset || null
+  }
+
+  /**
+   * Returns the recent datasets, the most recently saved first.
+   */
+  async listRecent(): Promise<StoredDataset[]> {
+    const transaction = (await this.open()).transaction(RECENT_STORE, 'readonly')
+    const datasets = await request<StoredDataset[]>(transaction.objectStore(RECENT_STORE).getAll())
+    return datasets.sort((a, b) => b.savedAt - a.savedAt)
+  }
+
+  async loadRecent(name: string): Promise<StoredDataset | null> {
+    const transaction = (await this.open()).transaction(RECENT_STORE, 'readonly')
+    const dataset = await request<StoredDataset | undefined>(
+      transaction.objectStore(RECENT_STORE).get(name)
+    )
+    return dataset || null
+  }
+
+  private async pruneRecent(): Promise<void> {
+    const obsolete = (await this.listRecent()).slice(MAX_RECENT_DATASETS)
+    if (obsolete.length > 0) {
+      const transaction = (await this.open()).transaction(RECENT_STORE, 'readwrite')
+      for (const { name } of obsolete) {
+        transaction.objectStore(RECENT_STORE).delete(name)
+      }
+      await completion(transaction)
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const openRequest = indexedDB.open(DB_NAME, DB_VERSION)
+        openRequest.onupgradeneeded = () => {
+          const database = openRequest.result
+          database.createObjectStore(SESSION_STORE)
+          database.createObjectStore(RECENT_STORE, { keyPath: 'name' })
+        }
+        openRequest.onsuccess = () => resolve(openRequest.result)
+        openRequest.onerror = () => reject(openRequest.error)
+      })
+    }
+    return this.database
+  }
+}
+
+function request<T>(idbRequest: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    idbRequest.onsuccess = () => resolve(idbRequest.result as T)
+    idbRequest.onerror = () => reject(idbRequest.error)
+  })
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
@@ -0,0 +1,295 @@
+export type NodeShape =
+  | 'rectangle'
+  | 'round-rectangle'
+  | 'ellipse'
+  | 'diamond'
+  | 'triangle'
+  | 'hexagon'
+  | 'octagon'
+
+export type EdgeDash = 'solid' | 'dash' | 'dot' | 'dash-dot'
+
+export interface LabelStyleProperties {
+  fontSize?: number
+  fontFamily?: string
+  fontWeight?: 'normal' | 'bold'
+  labelColor?: string
+}
+
+export interface NodeStyleProperties extends LabelStyleProperties {
+  shape?: NodeShape
+  fill?: string
+  borderColor?: string
+  borderWidth?: number
+  width?: number
+  height?: number
+  /** The URL of an image that is drawn instead of the shape */
+  icon?: string
+}
+
+export interface EdgeStyleProperties extends LabelStyleProperties {
+  color?: string
+  thickness?: number
+  dash?: EdgeDash
+}
+
+/**
+ * A condition on a node or edge record. All given tests must hold.
+ */
+export interface StyleCondition {
+  /** The node type or edge predicate, or one of several */
+  type?: string | string[]
+  /** The record property the value tests refer to, e.g. a column of the CSV file */
+  property?: string
+  /** The property has exactly this value */
+  equals?: string | number
+  /** The property matches this regular expression */
+  matches?: string
+  /** The property is a number of at least this value */
+  min?: number
+  /** The property is a number of at most this value */
+  max?: number
+}
+
+export type StyleRule =
+  | { name?: string; target: 'node'; when?: StyleCondition[]; style: NodeStyleProperties }
+  | { name?: string; target: 'edge'; when?: StyleCondition[]; style: EdgeStyleProperties }
+
+const NODE_SHAPES: NodeShape[] = [
+  'rectangle',
+  'round-rectangle',
+  'ellipse',
+  'diamond',
+  'triangle',
+  'hexagon',
+  'octagon'
+]
+
+const EDGE_DASHES: EdgeDash[] = ['solid', 'dash', 'dot', 'dash-dot']
+
+const NODE_PROPERTIES: { [property in keyof NodeStyleProperties]-?: 'string' | 'number' } = {
+  shape: 'string',
+  fill: 'string',
+  borderColor: 'string',
+  borderWidth: 'number',
+  width: 'number',
+  height: 'number',
+  icon: 'string',
+  fontSize: 'number',
+  fontFamily: 'string',
+  fontWeight: 'string',
+  labelColor: 'string'
+}
+
+const EDGE_PROPERTIES: { [property in keyof EdgeStyleProperties]-?: 'string' | 'number' } = {
+  color: 'string',
+  thickness: 'number',
+  dash: 'string',
+  fontSize: 'number',
+  fontFamily: 'string',
+  fontWeight: 'string',
+  labelColor: 'string'
+}
+
+/**
+ * Reads style rules from JSON, either an array of rules or an object with a `rules` array. A
+ * single condition may be given instead of an array of conditions.
+ * @throws Error if the JSON is invalid or a rule is malformed, with a message that names the rule.
+ */
+export function parseStyleRules(json: string): StyleRule[] {
+  const parsed: unknown = JSON.parse(json)
+  const rules = Array.isArray(parsed) ? parsed : (parsed as { rules?: unknown } | null)?.rules
+  if (!Array.isArray(rules)) {
+    throw new Error('Expected an array of rules')
+  }
+  return rules.map((rule, index) => validateRule(rule, `Rule ${index + 1}`))
+}
+
+/**
+ * Reads the style rules of a saved project or session. Unlike {@link parseStyleRules}, malformed
+ * rules are dropped, so that the valid rules still apply.
+ */
+export function readSavedStyleRules(value: unknown): StyleRule[] {
+  if (!Array.isArray(value)) {
+    return []
+  }
+  return value.flatMap((rule, index) => {
+    try {
+      return [validateRule(rule, `Rule ${index + 1}`)]
+    } catch (error) {
+      // the other rules still apply
+      return []
+    }
+  })
+}
+
+/**
+ * Whether the given record satisfies all conditions of the rule.
+ * @param type The node type or edge predicate of the record.
+ */
+export function matchesRule(rule: StyleRule, record: object, type: string): boolean {
+  return (rule.when || []).every((condition) => matchesCondition(condition, record, type))
+}
+
+/**
+ * Merges the style properties of all rules of the given target that apply to the record. Later
+ * rules override the properties of earlier ones.
+ */
+export function resolveNodeStyle(
+  rules: StyleRule[],
+  record: object,
+  type: string
+): NodeStyleProperties {
+  return Object.assign(
+    {},
+    ...rules
+      .filter((rule) => rule.target === 'node' && matchesRule(rule, record, type))
+      .map((rule) => rule.style)
+  )
+}
+
+export function resolveEdgeStyle(
+  rules: StyleRule[],
+  record: object,
+  type: string
+): EdgeStyleProperties {
+  return Object.assign(
+    {},
+    ...rules
+      .filter((rule) => rule.target === 'edge' && matchesRule(rule, record, type))
+      .map((rule) => rule.style)
+  )
+}
+
+function matchesCondition(condition: StyleCondition, record: object, type: string): boolean {
+  if (condition.type !== undefined) {
+    const types = Array.isArray(condition.type) ? condition.type : [condition.type]
+    if (!types.includes(type)) {
+      return false
+    }
+  }
+  if (condition.property === undefined) {
+    return true
+  }
+  const property = (record as { [property: string]: unknown })[condition.property]
+  const value = property === undefined || property === null ? '' : String(property)
+  if (value === '') {
+    // without value tests, the condition checks that the property has a value
+    return false
+  }
+  if (condition.equals !== undefined && value !== String(condition.equals)) {
+    return false
+  }
+  if (condition.matches !== undefined && !new RegExp(condition.matches).test(value)) {
+    return false
+  }
+  if (condition.min !== undefined || condition.max !== undefined) {
+    const number = Number(value)
+    if (
+      Number.isNaN(number) ||
+      (condition.min !== undefined && number < condition.min) ||
+      (condition.max !== undefined && number > condition.max)
+    ) {
+      return false
+    }
+  }
+  return true
+}
+
+function validateRule(value: unknown, name: string): StyleRule {
+  if (!isObject(value)) {
+    throw new Error(`${name}: expected an object`)
+  }
+  const { target, when, style } = value
+  if (target !== 'node' && target !== 'edge') {
+    throw new Error(`${name}: "target" must be "node" or "edge"`)
+  }
+  if (value.name !== undefined && typeof value.name !== 'string') {
+    throw new Error(`${name}: "name" must be a string`)
+  }
+  const displayName = typeof value.name === 'string' ? `${name} (${value.name})` : name
+
+  const conditions = when === undefined ? [] : Array.isArray(when) ? when : [when]
+  conditions.forEach((condition) => validateCondition(condition, displayName))
+
+  if (!isObject(style)) {
+    throw new Error(`${displayName}: "style" must be an object`)
+  }
+  const properties = target === 'node' ? NODE_PROPERTIES : EDGE_PROPERTIES
+  for (const [property, propertyValue] of Object.entries(style)) {
+    const expectedType = (properties as { [property: string]: string })[property]
+    if (!expectedType) {
+      throw new Error(`${displayName}: unknown ${target} style property "${property}"`)
+    }
+    if (typeof propertyValue !== expectedType) {
+      throw new Error(`${displayName}: "${property}" must be a ${expectedType}`)
+    }
+  }
+  if (
+    target === 'node' &&
+    style.shape !== undefined &&
+    !NODE_SHAPES.includes(style.shape as NodeShape)
+  ) {
+    throw new Error(`${displayName}: "shape" must be one of ${NODE_SHAPES.join(', ')}`)
+  }
+  if (
+    target === 'edge' &&
+    style.dash !== undefined &&
+    !EDGE_DASHES.includes(style.dash as EdgeDash)
+  ) {
+    throw new Error(`${displayName}: "dash" must be one of ${EDGE_DASHES.join(', ')}`)
+  }
+
+  return {
+    name: value.name as string | undefined,
+    target,
+    when: conditions as StyleCondition[],
+    style
+  } as StyleRule
+}
+
+function validateCondition(condition: unknown, name: string): void {
+  if (!isObject(condition)) {
+    throw new Error(`${name}: each condition must be an object`)
+  }
+  const { type, property, matches, min, max } = condition
+  if (
+    type !== undefined &&
+    typeof type !== 'string' &&
+    !(Array.isArray(type) && type.every((entry) => typeof entry === 'string'))
+  ) {
+    throw new Error(`${name}: "type" must be a string or an array of strings`)
+  }
+  if (property !== undefined && typeof property !== 'string') {
+    throw new Error(`${name}: "property" must be a string`)
+  }
+  if (
+    (condition.equals !== undefined ||
+      matches !== undefined ||
+      min !== undefined ||
+      max !== undefined) &&
+    property === undefined
+  ) {
+    throw new Error(`${name}: value tests need a "property"`)
+  }
+  if (matches !== undefined) {
+    try {
+      new RegExp(matches as string)
+    } catch (error) {
+      throw new Error(`${name}: "matches" is not a valid regular expression`)
+    }
+    if (typeof matches !== 'string') {
+      throw new Error(`${name}: "matches" must be a string`)
+    }
+  }
+  if (
+    (min !== undefined && typeof min !== 'number') ||
+    (max !== undefined && typeof max !== 'number')
+  ) {
+    throw new Error(`${name}: "min" and "max" must be numbers`)
+  }
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -8,53 +8,184 @@ import {
   ScrollBarVisibility,
   DefaultGraph,
   PolylineEdgeStyle,
-  OrganicLayout,
   ShinyPlateNodeStyle,
   GraphBuilder,
   Rect,
   INode,
   Matrix,
-  LayoutExecutor,
-  OrganicEdgeRouter,
   ExteriorLabelModel,
   ExteriorLabelModelPosition,
+  Stroke,
+  DashStyle,
+  Arrow,
+  ArrowType,
+  INodeStyle,
+  GroupNodeStyle,
+  GroupNodeStyleIconType,
+  GroupNodeLabelModel,
+  ILabelModelParameter,
+  IGraph,
+  Fill,
+  SolidColorFill,
+  IEdge,
+  ILabelStyle,
+  DefaultLabelStyle,
+  ShapeNodeStyle,
 } from 'yfiles';
 import { enableFolding } from './lib/FoldingSupport';
 import './lib/yFilesLicense';
 import { initializeGraphOverview } from './graph-overview';
 import { initializeTooltips } from './tooltips';
+import { initializeRendering, refreshRendering } from './rendering';
 import { exportDiagram } from './diagram-export';
 import { initializeContextMenu } from './context-menu';
 import { initializeGraphSearch } from './graph-search';
-import Papa from 'papaparse';
-
-interface NodeData {
-  id: string;
-  type: string;
-  label?: string;
-}
+import { importRdf, RDF_FILE_EXTENSIONS } from './rdf-import';
+import { importOwl, OWL_FILE_EXTENSIONS } from './owl-import';
+import { importTriples } from './triples-import';
+import { DroppedFile, initializeFileDrop, showImportStatus } from './file-drop';
+import { saveGraphML, openGraphML, readGraphML } from './graphml-io';
+import { saveProject, openProject, readProject, WorkspaceState } from './project-io';
+import { initializeSessionPersistence, offerSessionRestore, scheduleSessionSave } from './session-restore';
+import { StoredDataset } from './lib/SessionStore';
+import {
+  DatasetSource,
+  fetchDatasetFiles,
+  getDatasetSourceFromUrl,
+  initializeDatasetPicker,
+  setDatasetSourceInUrl
+} from './dataset-loader';
+import { validateCsvImport } from './import-validation';
+import { CsvFileKind, mapCsvColumns } from './column-mapping';
+import { NodeData, EdgeData, CsvTable, getEdgePredicate } from './lib/GraphData';
+import { parseCsvFile } from './csv-import';
+import { FileIoSupport } from './lib/FileIoSupport';
+import { getLayoutSettings, initializeLayoutPanel, runLayout, showLayoutFingerprint } from './layout-panel';
+import { computeLayoutFingerprint, getLayoutSeed, getStartLocation } from './layout-fingerprint';
+import { initializeIncrementalLayout, runIncrementalLayout } from './incremental-layout';
+import { getPinnedNodeIds, initializeNodePinning, setPinnedNodeIds } from './node-pinning';
+import {
+  applyGrouping,
+  getGroupingMode,
+  initializeGrouping,
+  isTypeGroup,
+  renameTypeGroup,
+  setGroupingMode
+} from './node-grouping';
+import {
+  createRuleLabelStyle,
+  createRuleNodeStyle,
+  getRuleDashStyle,
+  getRuleNodeSize,
+  getStyleRules,
+  initializeStyleRules,
+  setStyleRules
+} from './style-rules';
+import { EdgeStyleProperties, NodeStyleProperties, readSavedStyleRules, resolveEdgeStyle, resolveNodeStyle } from './lib/StyleRules';
+import { enableTypeFilter, getCompleteGraph, getHiddenTypes, isTypeHidden, setHiddenTypes } from './type-filter';
+import { initializeLegend, updateLegend } from './legend';
+import {
+  getPaletteColors,
+  getPaletteName,
+  getThemeColors,
+  initializePaletteSelect,
+  initializeTheme,
+  isThemeForeground,
+  setPaletteName
+} from './theme';
+import {
+  getMetricGradient,
+  getMetricSettings,
+  getMetricStyle,
+  initializeMetricsPanel,
+  setMetricSettings,
+  updateMetrics
+} from './graph-metrics';
+import {
+  applyProjection,
+  getProjectionSettings,
+  initializeProjectionControls,
+  setProjectionSettings
+} from './projection';
 
-interface EdgeData {
-  source: string;
-  target: string;
+interface EdgeTypeStyle {
+  color: string;
+  dash: DashStyle;
+  dashArray: string; // SVG equivalent of the dash style, used for the legend
 }
 
 let graphComponent: GraphComponent;
 let nodeLabelsVisible = true;
-const colorPalette = [
-  '#FF5733', '#33FF57', '#3357FF', '#FF33A8', '#FF8C33', '#33FF8C', '#8C33FF', '#FFD633',
-  '#33FFF3', '#F333FF', '#33FFBD', '#FF336E', '#33D1FF', '#FF8333', '#BFFF33', '#FF33F1'
-];
+let datasetName = '';
+let importMode: 'merge' | 'replace' = 'merge';
+// the nodes and edges files of a CSV import may arrive one after the other
+let pendingNodes: CsvTable | null = null;
+let pendingEdges: CsvTable | null = null;
 const typeColors: { [key: string]: string } = {};
+// the types the user colored in the legend keep their color when the palette changes
+const recoloredTypes = new Set<string>();
+const edgeDashStyles = [
+  { dash: DashStyle.SOLID, dashArray: '' },
+  { dash: DashStyle.DASH, dashArray: '6,3' },
+  { dash: DashStyle.DOT, dashArray: '2,2' },
+  { dash: DashStyle.DASH_DOT, dashArray: '6,3,2,3' }
+];
+const edgeTypeStyles: { [key: string]: EdgeTypeStyle } = {};
 
 async function run() {
   graphComponent = await initializeGraphComponent();
   initializeToolbar(graphComponent);
   initializeGraphOverview(graphComponent);
   initializeTooltips(graphComponent);
+  initializeRendering(graphComponent, document.getElementById('btn-rendering') as HTMLButtonElement);
   initializeContextMenu(graphComponent);
   initializeGraphSearch(graphComponent);
+  initializeFileDrop(document.querySelector<HTMLElement>('.graph-component-container')!, handleFileDrop);
+  initializeLayoutPanel(() => Object.keys(edgeTypeStyles), applyChosenLayout);
+  initializeProjectionControls(graphComponent, scheduleSessionSave);
+  initializeIncrementalLayout(graphComponent, () => {
+    updateLayoutFingerprint();
+    scheduleSessionSave();
+  });
+  initializeGrouping(graphComponent, document.getElementById('group-by') as HTMLSelectElement, regroupGraph);
+  initializeNodePinning(graphComponent, document.getElementById('btn-move-nodes') as HTMLButtonElement, () => {
+    updateLayoutFingerprint();
+    scheduleSessionSave();
+  });
+  initializeStyleRules(document.getElementById('btn-style-rules') as HTMLButtonElement, applyStyleRules);
+  initializeMetricsPanel(applyMetrics);
+  initializeTheme(document.getElementById('btn-dark-theme') as HTMLButtonElement, applyStyleRules);
+  initializePaletteSelect(document.getElementById('color-palette') as HTMLSelectElement, applyPalette);
+  initializeLegend(document.querySelector<HTMLElement>('.main')!, {
+    onToggle: (type, visible) =>
+      showTypes(visible ? getHiddenTypes().filter(hidden => hidden !== type) : [...getHiddenTypes(), type]),
+    onSolo: soloType,
+    onRecolor: recolorType,
+    onRename: renameType
+  });
   createLegend();
+
+  initializeSessionPersistence(
+    graphComponent,
+    getWorkspaceState,
+    document.getElementById('recent-datasets') as HTMLSelectElement,
+    restoreDataset
+  );
+  initializeDatasetPicker(document.getElementById('dataset-picker') as HTMLSelectElement, dataset => {
+    setDatasetSourceInUrl(dataset);
+    loadDatasetSource(dataset);
+  });
+
+  // a dataset linked in the URL takes precedence over the previous session
+  const urlSource = getDatasetSourceFromUrl();
+  if (urlSource) {
+    await loadDatasetSource(urlSource);
+  } else {
+    const session = await offerSessionRestore();
+    if (session) {
+      await restoreDataset(session);
+    }
+  }
 }
 
 async function initializeGraphComponent(): Promise<GraphComponent> {
@@ -72,7 +203,8 @@ async function initializeGraphComponent(): Promise<GraphComponent> {
   mode.navigationInputMode.allowExpandGroup = true;
   graphComponent.inputMode = mode;
 
-  graphComponent.graph = enableFolding(new DefaultGraph());
+  // the legend hides the nodes of some types from the folding view
+  graphComponent.graph = enableTypeFilter(enableFolding(new DefaultGraph()));
 
   return graphComponent;
 }
@@ -94,6 +226,37 @@ function initializeToolbar(graphComponent: GraphComponent) {
     ICommand.FIT_GRAPH_BOUNDS.execute(null, graphComponent);
   });
 
+  document.getElementById('btn-save-graphml')!.addEventListener('click', async () => {
+    try {
+      await saveGraphML(graphComponent, computeLayoutFingerprint(getMasterGraph(graphComponent.graph)));
+    } catch (error) {
+      alert(`Could not save GraphML file: ${(error as Error).message}`);
+    }
+  });
+
+  document.getElementById('btn-open-graphml')!.addEventListener('click', async () => {
+    let opened: { fileName: string; layoutFingerprint: string | null };
+    try {
+      opened = await openGraphML(graphComponent.graph);
+    } catch (error) {
+      alert(`Could not open GraphML file: ${(error as Error).message}`);
+      return;
+    }
+    await onGraphMLLoaded(opened.fileName, opened.layoutFingerprint);
+  });
+
+  document.getElementById('btn-save-project')!.addEventListener('click', () => {
+    saveProject(graphComponent, getWorkspaceState());
+  });
+
+  document.getElementById('btn-open-project')!.addEventListener('click', async () => {
+    try {
+      await applyWorkspaceState(await openProject(graphComponent));
+    } catch (error) {
+      alert(`Could not open project: ${(error as Error).message}`);
+    }
+  });
+
   document.getElementById('btn-export-svg')!.addEventListener('click', () => {
     exportDiagram(graphComponent, 'svg');
   });
@@ -106,13 +269,24 @@ function initializeToolbar(graphComponent: GraphComponent) {
     exportDiagram(graphComponent, 'pdf');
   });
 
+  const importModeSelect = document.getElementById('import-mode') as HTMLSelectElement;
+  importModeSelect.value = importMode;
+  importModeSelect.addEventListener('change', () => {
+    importMode = importModeSelect.value as 'merge' | 'replace';
+  });
+
   document.getElementById('nodes-file-input')!.addEventListener('change', handleFileUpload);
   document.getElementById('edges-file-input')!.addEventListener('change', handleFileUpload);
+  document.getElementById('rdf-file-input')!.addEventListener('change', handleRdfUpload);
+  document.getElementById('triples-file-input')!.addEventListener('change', handleTriplesUpload);
 
   document.getElementById('btn-toggle-node-labels')!.addEventListener('click', () => {
     nodeLabelsVisible = !nodeLabelsVisible;
     toggleNodeLabels(nodeLabelsVisible);
+    scheduleSessionSave();
   });
+
+  document.getElementById('graph-search-input')!.addEventListener('input', scheduleSessionSave);
 }
 
 async function handleFileUpload(event: Event) {
@@ -121,157 +295,894 @@ async function handleFileUpload(event: Event) {
 
   const file = input.files[0];
   const fileType = input.id === 'nodes-file-input' ? 'nodes' : 'edges';
+  if (!(await loadCsvTable(file, fileType))) {
+    input.value = ''; // allow choosing the same file again
+  }
+}
+
+async function handleRdfUpload(event: Event) {
+  const input = event.target as HTMLInputElement;
+  if (!input.files || input.files.length === 0) return;
+  await importRdfFile(input.files[0]);
+}
+
+async function handleTriplesUpload(event: Event) {
+  const input = event.target as HTMLInputElement;
+  if (!input.files || input.files.length === 0) return;
+  await importTriplesFile(input.files[0]);
+}
 
-  const fileData = await file.text();
-  const parsedData = Papa.parse(fileData, { header: true }).data;
+/**
+ * Imports files that have been dropped on the graph component. Nodes and edges files may be
+ * dropped together or one after the other.
+ */
+async function handleFileDrop(files: DroppedFile[]) {
+  const unknownFiles = files.filter(({ kind }) => kind === 'unknown');
+  if (unknownFiles.length > 0) {
+    alert(`Could not detect the format of ${unknownFiles.map(({ file }) => file.name).join(', ')}. Expected a nodes CSV (with an id column), an edges CSV (with source and target columns), a triples CSV/TSV, a GraphML file or an RDF/OWL file.`);
+  }
+
+  for (const { file, kind } of files) {
+    switch (kind) {
+      case 'graphml':
+        await openGraphMLFile(file);
+        break;
+      case 'rdf':
+        await importRdfFile(file);
+        break;
+      case 'triples':
+        await importTriplesFile(file);
+        break;
+      case 'nodes':
+      case 'edges':
+        await loadCsvTable(file, kind);
+        break;
+    }
+  }
+}
+
+/**
+ * Parses and maps a nodes or edges CSV file and imports it as soon as the other file of the pair
+ * is available as well.
+ * @returns Whether the file has been accepted.
+ */
+async function loadCsvTable(file: File, fileType: CsvFileKind): Promise<boolean> {
+  let parsedTable: CsvTable | null;
+  try {
+    // large files are parsed in a worker with progress and cancel
+    parsedTable = await parseCsvFile(file);
+  } catch (error) {
+    alert(`Could not read ${file.name}: ${(error as Error).message}`);
+    return false;
+  }
+  const table = parsedTable && (await mapCsvColumns(parsedTable, fileType));
+  if (!table) {
+    return false;
+  }
 
   if (fileType === 'nodes') {
-    (window as any).uploadedNodes = parsedData;
+    pendingNodes = table;
   } else {
-    (window as any).uploadedEdges = parsedData;
+    pendingEdges = table;
+  }
+
+  if (pendingNodes && pendingEdges) {
+    const nodesTable = pendingNodes;
+    const edgesTable = pendingEdges;
+    // the next import needs a new pair of files
+    pendingNodes = null;
+    pendingEdges = null;
+    (document.getElementById('nodes-file-input') as HTMLInputElement).value = '';
+    (document.getElementById('edges-file-input') as HTMLInputElement).value = '';
+    showImportStatus(null);
+
+    const name = `${nodesTable.fileName} + ${edgesTable.fileName}`;
+    try {
+      const data = await validateCsvImport(nodesTable, edgesTable);
+      if (data) {
+        await loadAndProcessCSVFiles(graphComponent, data.nodes, data.edges, name);
+      }
+    } catch (error) {
+      // e.g. a failed layout
+      alert(`Could not import ${name}: ${(error as Error).message}`);
+    }
+  } else {
+    const missing = fileType === 'nodes' ? 'edges' : 'nodes';
+    showImportStatus(`${file.name} loaded as ${fileType} file. Waiting for the ${missing} file.`);
+  }
+  return true;
+}
+
+async function importRdfFile(file: File) {
+  const extension = FileIoSupport.getFileExtension(file);
+  const isOwl = !!extension && OWL_FILE_EXTENSIONS.includes(extension);
+  if (!extension || (!RDF_FILE_EXTENSIONS.includes(extension) && !isOwl)) {
+    alert(`Unsupported RDF format: ${file.name}. Expected Turtle (.ttl), N-Triples (.nt), RDF/XML (.owl, .rdf) or OWL/XML (.owx).`);
+    return;
+  }
+
+  try {
+    const { nodes, edges } = isOwl ? await importOwl(file) : await importRdf(file);
+    await loadAndProcessCSVFiles(graphComponent, nodes, edges, file.name);
+  } catch (error) {
+    alert(`Could not import ${file.name}: ${(error as Error).message}`);
   }
+}
+
+async function importTriplesFile(file: File) {
+  try {
+    const { nodes, edges } = await importTriples(file);
+    await loadAndProcessCSVFiles(graphComponent, nodes, edges, file.name);
+  } catch (error) {
+    alert(`Could not import ${file.name}: ${(error as Error).message}`);
+  }
+}
 
-  if ((window as any).uploadedNodes && (window as any).uploadedEdges) {
-    loadAndProcessCSVFiles(graphComponent, (window as any).uploadedNodes, (window as any).uploadedEdges);
+async function openGraphMLFile(file: File) {
+  let layoutFingerprint: string | null;
+  try {
+    layoutFingerprint = await readGraphML(graphComponent.graph, await file.text());
+  } catch (error) {
+    alert(`Could not open ${file.name}: ${(error as Error).message}`);
+    return;
   }
+  await onGraphMLLoaded(file.name, layoutFingerprint);
 }
 
-async function loadAndProcessCSVFiles(graphComponent: GraphComponent, nodes: NodeData[], edges: EdgeData[]) {
+/**
+ * Restores the type colors from a loaded GraphML file and shows the graph.
+ * @param layoutFingerprint The fingerprint the file has been saved with, which the current layout is compared to.
+ */
+async function onGraphMLLoaded(fileName: string, layoutFingerprint: string | null) {
+  datasetName = fileName;
+  setHiddenTypes([]);
+  restoreTypeStyles(graphComponent.graph);
+  await computeMetrics();
+  // the file may have been saved with the other theme
+  applyThemeColors();
+  applyProjection(graphComponent);
+  graphComponent.fitGraphBounds();
+  createLegend();
+  updateLayoutFingerprint(layoutFingerprint ?? undefined);
+  scheduleSessionSave();
+}
+
+async function loadAndProcessCSVFiles(graphComponent: GraphComponent, nodes: NodeData[], edges: EdgeData[], name: string) {
+  if (importMode === 'replace') {
+    clearGraph();
+  }
+  // nodes of hidden types are created as well, they just stay hidden
+  const graph = getCompleteGraph(graphComponent.graph);
+  const masterGraph = getMasterGraph(graph);
+  const existingNodes = getNodesById(masterGraph);
+  const isIncremental = existingNodes.size > 0;
+  datasetName = isIncremental && datasetName ? `${datasetName} + ${name}` : name;
+
   // Remove duplicate nodes
   const uniqueNodes = Array.from(new Map(nodes.map(node => [node.id, node])).values());
 
-  const graphBuilder = new GraphBuilder(graphComponent.graph);
+  // In merge mode, rows for nodes that already exist update these nodes instead of creating duplicates
+  const newNodes = uniqueNodes.filter(node => !existingNodes.has(node.id));
+  for (const data of uniqueNodes) {
+    const node = existingNodes.get(data.id);
+    if (node) {
+      updateNode(masterGraph, node, data);
+    }
+  }
+
+  const edgeKeys = new Set(masterGraph.edges.toArray().map(edge => getEdgeKey(edge.tag as EdgeData)));
+  const newEdges = edges.filter(edge => {
+    const key = getEdgeKey(edge);
+    if (edgeKeys.has(key)) {
+      return false;
+    }
+    edgeKeys.add(key);
+    return true;
+  });
+
+  // The initial placement depends only on the data or the chosen seed, which makes the layout reproducible
+  const layoutSettings = getLayoutSettings();
+  const seed = getLayoutSeed(layoutSettings.seed, newNodes, newEdges);
+  const getStartBounds = (data: NodeData) => {
+    const { x, y } = getStartLocation(seed, data.id);
+    return new Rect(x, y, 30, 30);
+  };
+
+  const graphBuilder = new GraphBuilder(graph);
 
+  // The nodes are nested afterwards by applyGrouping, which also turns parents into group nodes
+  const nodeIds = new Set(newNodes.map(node => node.id));
   const nodeSource = graphBuilder.createNodesSource({
-    data: uniqueNodes,
+    data: newNodes,
     id: 'id',
-    tag: (data: NodeData) => data.type,
-    layout: () => new Rect(Math.random() * 800, Math.random() * 600, 30, 30),
+    tag: (data: NodeData) => data,
+    layout: getStartBounds,
   });
 
+  // Edges that connect new nodes to existing ones cannot be resolved by the builder and are added below
   const edgeSource = graphBuilder.createEdgesSource({
-    data: edges,
+    data: newEdges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target)),
     sourceId: 'source',
-    targetId: 'target'
+    targetId: 'target',
+    tag: (data: EdgeData) => data
   });
 
   const edgeStyle = new PolylineEdgeStyle({
-    stroke: '2px solid black',
+    stroke: `2px solid ${getThemeColors().foreground}`,
     targetArrow: 'default'
   });
-  graphComponent.graph.edgeDefaults.style = edgeStyle;
+  graph.edgeDefaults.style = edgeStyle;
+
+  // Typed edges show their predicate as label and get a per-predicate color and dash pattern
+  edgeSource.edgeCreator.createLabelBinding((data: EdgeData) => getEdgePredicate(data) || null);
+  edgeSource.edgeCreator.addEdgeCreatedListener((sender, event) => {
+    applyEdgeRules(graph, event.item);
+  });
 
+  const createdNodes = new Set<INode>();
   nodeSource.nodeCreator.createLabelBinding((data: NodeData) => data.label || '');
   nodeSource.nodeCreator.addNodeCreatedListener((sender, event) => {
     const node = event.item as INode;
-    const type = event.dataItem.type;
-    if (!typeColors[type]) {
-      typeColors[type] = colorPalette[Object.keys(typeColors).length % colorPalette.length];
-    }
-    const color = typeColors[type];
-    const nodeStyle = new ShinyPlateNodeStyle({ fill: color });
-    graphComponent.graph.setStyle(node, nodeStyle); // Set the style for the node
-  });
-
-  const labelModel = new ExteriorLabelModel({ insets: 5 });
-  nodeSource.nodeCreator.addNodeCreatedListener((sender, args) => {
-    const label = args.item.labels.first();
+    applyNodeRules(graph, node); // Set the style and size for the node
+    const label = node.labels.first();
     if (label) {
-      graphComponent.graph.setLabelLayoutParameter(label, labelModel.createParameter(ExteriorLabelModelPosition.SOUTH));
+      graph.setLabelLayoutParameter(label, getNodeLabelParameter(node));
     }
+    createdNodes.add(node);
   });
 
   graphBuilder.buildGraph();
 
-  // Apply OrganicLayout with specific settings
-  const layout = new OrganicLayout();
-  layout.minimumNodeDistance = 40;
-  layout.nodeOverlapsAllowed = false;
-  await graphComponent.morphLayout(layout, '1s');
+  if (isIncremental) {
+    connectToExistingNodes(masterGraph, newEdges, nodeIds);
+  }
 
-  // Apply OrganicEdgeRouter for edge bundling
-  const edgeRouter = new OrganicEdgeRouter();
-  const layoutExecutor = new LayoutExecutor({
-    graphComponent,
-    layout: edgeRouter,
-    duration: '1s',
-    animateViewport: true,
-  });
-  await layoutExecutor.start();
+  // Nest the nodes in their parents or type groups, depending on the chosen grouping
+  const regroupedNodes = applyGrouping(masterGraph, (node, isGroup) => setGroupNode(masterGraph, node, isGroup));
+
+  // The new edges change the metrics of the existing nodes as well
+  const { sizeMetric, colorMetric } = getMetricSettings();
+  if (sizeMetric !== 'none' || colorMetric !== 'none') {
+    await computeMetrics();
+    masterGraph.nodes.forEach(node => applyNodeRules(masterGraph, node));
+  }
+
+  if (isIncremental) {
+    // Keep the existing drawing and only arrange the new nodes and the nodes that moved to another group
+    for (const node of regroupedNodes) {
+      const viewNode = graph.foldingView ? graph.foldingView.getViewItem(node) : node;
+      if (viewNode) {
+        createdNodes.add(viewNode);
+      }
+    }
+    await runIncrementalLayout(graphComponent, createdNodes, seed);
+  } else {
+    // Arrange the graph with the algorithm chosen in the layout panel
+    await runLayout(graphComponent, layoutSettings);
+  }
 
-  // Apply isometric projection to the final node positions
-  applyIsometricProjection(graphComponent);
+  // Apply the chosen projection to the final node positions
+  applyProjection(graphComponent);
 
   graphComponent.fitGraphBounds();
   graphComponent.zoom = 1.0; // Default zoom ratio
 
   // Update the legend with dynamically assigned colors
   createLegend();
+  updateLayoutFingerprint();
+  scheduleSessionSave();
 }
 
-function applyIsometricProjection(graphComponent: GraphComponent) {
-  const isometricMatrix = new Matrix(
-    Math.cos(Math.PI / 6), -Math.cos(Math.PI / 6),
-    Math.sin(Math.PI / 6), Math.sin(Math.PI / 6),
-    0, 0
-  );
-  graphComponent.projection = isometricMatrix;
+/**
+ * Arranges the current graph with the algorithm chosen in the layout panel.
+ */
+async function applyChosenLayout() {
+  try {
+    await runLayout(graphComponent, getLayoutSettings());
+  } catch (error) {
+    alert(`Could not arrange the graph: ${(error as Error).message}`);
+    return;
+  }
+  graphComponent.fitGraphBounds();
+  updateLayoutFingerprint();
+  scheduleSessionSave();
+}
+
+/**
+ * Nests the nodes according to the chosen grouping and arranges the graph again.
+ */
+async function regroupGraph() {
+  const masterGraph = getMasterGraph(graphComponent.graph);
+  applyGrouping(masterGraph, (node, isGroup) => setGroupNode(masterGraph, node, isGroup));
+  await applyChosenLayout();
+}
+
+/**
+ * Shows the fingerprint of the current coordinates in the layout panel.
+ * @param savedFingerprint The fingerprint stored with an opened project.
+ */
+function updateLayoutFingerprint(savedFingerprint?: string) {
+  showLayoutFingerprint(computeLayoutFingerprint(getMasterGraph(graphComponent.graph)), savedFingerprint);
+}
+
+/**
+ * Removes all items, the pins and the type style assignments, so that the next import starts from scratch.
+ */
+function clearGraph() {
+  getMasterGraph(graphComponent.graph).clear();
+  setPinnedNodeIds([]);
+  setHiddenTypes([]);
+  Object.keys(typeColors).forEach(type => delete typeColors[type]);
+  recoloredTypes.clear();
+  Object.keys(edgeTypeStyles).forEach(predicate => delete edgeTypeStyles[predicate]);
+  createLegend();
+}
+
+/**
+ * Returns the graph that contains all items, including the content of collapsed groups.
+ */
+function getMasterGraph(graph: IGraph): IGraph {
+  return graph.foldingView ? graph.foldingView.manager.masterGraph : graph;
+}
+
+function getNodesById(graph: IGraph): Map<string, INode> {
+  const nodesById = new Map<string, INode>();
+  graph.nodes.forEach(node => {
+    const data = node.tag as NodeData | null;
+    if (data && data.id) {
+      nodesById.set(data.id, node);
+    }
+  });
+  return nodesById;
+}
+
+function getEdgeKey(data: EdgeData | null): string {
+  return data ? [data.source, data.target, getEdgePredicate(data)].join('\u0000') : '';
+}
+
+/**
+ * Applies a changed record to an existing node: its label, its type color and the style rules that
+ * match the new values. Its group is updated by {@link applyGrouping}.
+ */
+function updateNode(masterGraph: IGraph, node: INode, data: NodeData) {
+  const previous = node.tag as NodeData;
+  node.tag = { ...previous, ...data };
+
+  const label = node.labels.first();
+  if (label && data.label !== undefined && label.text !== data.label) {
+    masterGraph.setLabelText(label, data.label);
+  }
+  applyNodeRules(masterGraph, node);
+}
+
+/**
+ * Turns a node into a group node or back, which changes its style, its size and its label placement.
+ */
+function setGroupNode(masterGraph: IGraph, node: INode, isGroup: boolean) {
+  if (masterGraph.isGroupNode(node) !== isGroup) {
+    masterGraph.setIsGroupNode(node, isGroup);
+    applyNodeRules(masterGraph, node);
+    const label = node.labels.first();
+    if (label) {
+      masterGraph.setLabelLayoutParameter(label, getNodeLabelParameter(node, masterGraph));
+    }
+  }
+}
+
+/**
+ * Adds the edges between newly created and already existing nodes, which the graph builder cannot
+ * resolve. The parent relations are added by {@link applyGrouping}.
+ */
+function connectToExistingNodes(masterGraph: IGraph, newEdges: EdgeData[], newNodeIds: Set<string>) {
+  const nodesById = getNodesById(masterGraph);
+
+  for (const data of newEdges) {
+    if (newNodeIds.has(data.source) && newNodeIds.has(data.target)) {
+      continue; // created by the graph builder
+    }
+    const source = nodesById.get(data.source);
+    const target = nodesById.get(data.target);
+    if (!source || !target) {
+      continue;
+    }
+    const predicate = getEdgePredicate(data);
+    const edge = masterGraph.createEdge({ source, target, tag: data });
+    if (predicate) {
+      masterGraph.addLabel(edge, predicate);
+    }
+    applyEdgeRules(masterGraph, edge);
+  }
 }
 
 function getColorForType(type: string): string {
   if (!typeColors[type]) {
-    typeColors[type] = colorPalette[Object.keys(typeColors).length % colorPalette.length];
+    const colors = getPaletteColors();
+    typeColors[type] = colors[Object.keys(typeColors).length % colors.length];
   }
   return typeColors[type];
 }
 
+function createNodeStyle(node: INode, type: string, graph: IGraph = graphComponent.graph): INodeStyle {
+  const properties = getNodeStyleProperties(node, type);
+  const color = getColorForType(type);
+  if (graph.isGroupNode(node)) {
+    const fill = properties.fill || color;
+    return new GroupNodeStyle({
+      groupIcon: GroupNodeStyleIconType.MINUS,
+      tabFill: fill,
+      contentAreaFill: getThemeColors().groupContent,
+      stroke: `1px solid ${fill}`
+    });
+  }
+  return createRuleNodeStyle(properties, color, getThemeColors().foreground);
+}
+
+/**
+ * Sets the style, the size and the label style of a node according to its type and the style rules.
+ * Group nodes keep the size of their content.
+ */
+function applyNodeRules(graph: IGraph, node: INode) {
+  const data = node.tag as NodeData | null;
+  const type = data ? data.type : '';
+  graph.setStyle(node, createNodeStyle(node, type, graph));
+  if (!graph.isGroupNode(node)) {
+    const size = getRuleNodeSize(getNodeStyleProperties(node, type));
+    const { center } = node.layout;
+    if (node.layout.width !== size.width || node.layout.height !== size.height) {
+      graph.setNodeLayout(node, Rect.fromCenter(center, size));
+    }
+  }
+  const labelStyle = getNodeLabelStyle(node, graph);
+  node.labels.forEach(label => graph.setStyle(label, labelStyle));
+}
+
+/**
+ * Returns the style properties of the matching style rules, overridden by the metrics.
+ */
+function getNodeStyleProperties(node: INode, type: string): NodeStyleProperties {
+  return { ...resolveNodeStyle(getStyleRules(), node.tag || {}, type), ...getMetricStyle(node) };
+}
+
+function getNodeLabelStyle(node: INode, graph: IGraph = graphComponent.graph): ILabelStyle {
+  const data = node.tag as NodeData | null;
+  const properties = resolveNodeStyle(getStyleRules(), data || {}, data ? data.type : '');
+  return createRuleLabelStyle(properties, getThemeColors().foreground);
+}
+
+/**
+ * Sets the style and the label style of an edge according to its predicate and the style rules.
+ */
+function applyEdgeRules(graph: IGraph, edge: IEdge) {
+  const data = edge.tag as EdgeData | null;
+  const predicate = data ? getEdgePredicate(data) : '';
+  const properties = resolveEdgeStyle(getStyleRules(), data || {}, predicate);
+  // edges without a predicate have the color of the labels
+  const typeStyle = predicate
+    ? getEdgeTypeStyle(predicate)
+    : { color: getThemeColors().foreground, dash: DashStyle.SOLID, dashArray: '' };
+  graph.setStyle(edge, createEdgeStyle(typeStyle, properties));
+  const labelStyle = createRuleLabelStyle(properties, getThemeColors().foreground);
+  edge.labels.forEach(label => graph.setStyle(label, labelStyle));
+}
+
+/**
+ * Restyles all items after the style rules, the metrics, the palette or the theme have changed.
+ */
+function applyStyleRules() {
+  restyleGraph();
+  createLegend();
+  scheduleSessionSave();
+}
+
+function restyleGraph() {
+  const masterGraph = getMasterGraph(graphComponent.graph);
+  masterGraph.nodes.forEach(node => applyNodeRules(masterGraph, node));
+  masterGraph.edges.forEach(edge => applyEdgeRules(masterGraph, edge));
+  refreshRendering();
+}
+
+/**
+ * Replaces the colors of the other theme in a graph that was read from a file: the fill of the group content and the
+ * color of labels, untyped edges and default node borders. Unlike {@link restyleGraph}, this keeps the sizes and all other styles of the file.
+ */
+function applyThemeColors() {
+  const masterGraph = getMasterGraph(graphComponent.graph);
+  const { foreground, groupContent } = getThemeColors();
+  masterGraph.nodes.forEach(node => {
+    if (node.style instanceof GroupNodeStyle) {
+      const style = node.style.clone() as GroupNodeStyle;
+      style.contentAreaFill = groupContent;
+      masterGraph.setStyle(node, style);
+    } else if (node.style instanceof ShapeNodeStyle && isThemeForeground(toHexColor(node.style.stroke?.fill ?? null))) {
+      // the default border of the style rules
+      const style = node.style.clone() as ShapeNodeStyle;
+      style.stroke = new Stroke({ fill: foreground, thickness: node.style.stroke!.thickness });
+      masterGraph.setStyle(node, style);
+    }
+  });
+  masterGraph.edges.forEach(edge => {
+    if (edge.tag && getEdgePredicate(edge.tag as EdgeData)) {
+      return;
+    }
+    const stroke = edge.style instanceof PolylineEdgeStyle ? edge.style.stroke : null;
+    if (stroke && isThemeForeground(toHexColor(stroke.fill))) {
+      const typeStyle = { color: foreground, dash: stroke.dashStyle, dashArray: '' };
+      masterGraph.setStyle(edge, createEdgeStyle(typeStyle, { thickness: stroke.thickness }));
+    }
+  });
+  masterGraph.labels.forEach(label => {
+    if (label.style instanceof DefaultLabelStyle && isThemeForeground(toHexColor(label.style.textFill))) {
+      const style = label.style.clone() as DefaultLabelStyle;
+      style.textFill = foreground;
+      masterGraph.setStyle(label, style);
+    }
+  });
+  refreshRendering();
+}
+
+/**
+ * Colors the known node types and edge predicates with the chosen palette, in the order of the legend. Types the user
+ * colored in the legend keep their color.
+ */
+function applyPalette() {
+  const colors = getPaletteColors();
+  Object.keys(typeColors).forEach((type, index) => {
+    if (!recoloredTypes.has(type)) {
+      typeColors[type] = colors[index % colors.length];
+    }
+  });
+  Object.keys(edgeTypeStyles).forEach((predicate, index) => {
+    edgeTypeStyles[predicate] = createEdgeTypeStyle(index);
+  });
+  applyStyleRules();
+}
+
+/**
+ * Computes the chosen metrics and maps them to the node sizes and colors.
+ */
+async function applyMetrics() {
+  if (await computeMetrics()) {
+    applyStyleRules();
+  }
+}
+
+/**
+ * Computes the chosen metrics of the master graph. If the computation fails or is canceled, the previous metrics stay in
+ * effect.
+ * @returns Whether the metrics have been updated.
+ */
+async function computeMetrics(): Promise<boolean> {
+  try {
+    return await updateMetrics(getMasterGraph(graphComponent.graph));
+  } catch (error) {
+    alert(`Could not compute metrics: ${(error as Error).message}`);
+    return false;
+  }
+}
+
+/**
+ * Group labels are placed in the tab of the group, all other labels below the node.
+ */
+function getNodeLabelParameter(node: INode, graph: IGraph = graphComponent.graph): ILabelModelParameter {
+  if (graph.isGroupNode(node)) {
+    return new GroupNodeLabelModel().createDefaultParameter();
+  }
+  return new ExteriorLabelModel({ insets: 5 }).createParameter(ExteriorLabelModelPosition.SOUTH);
+}
+
+function getEdgeTypeStyle(predicate: string): EdgeTypeStyle {
+  if (!edgeTypeStyles[predicate]) {
+    edgeTypeStyles[predicate] = createEdgeTypeStyle(Object.keys(edgeTypeStyles).length);
+  }
+  return edgeTypeStyles[predicate];
+}
+
+/**
+ * Returns the color and dash pattern of the edge predicate with the given index.
+ */
+function createEdgeTypeStyle(index: number): EdgeTypeStyle {
+  const colors = getPaletteColors();
+  // cycle the dash patterns once per full round of colors so that the combinations stay unique
+  const dashStyle = edgeDashStyles[Math.floor(index / colors.length) % edgeDashStyles.length];
+  return {
+    color: colors[index % colors.length],
+    dash: dashStyle.dash,
+    dashArray: dashStyle.dashArray
+  };
+}
+
+function createEdgeStyle(typeStyle: EdgeTypeStyle, properties: EdgeStyleProperties = {}): PolylineEdgeStyle {
+  const color = properties.color || typeStyle.color;
+  const dash = properties.dash ? getRuleDashStyle(properties.dash) : typeStyle.dash;
+  return new PolylineEdgeStyle({
+    stroke: new Stroke({ fill: color, thickness: properties.thickness ?? 2, dashStyle: dash }),
+    targetArrow: new Arrow({ type: ArrowType.DEFAULT, fill: color, stroke: color })
+  });
+}
+
+/**
+ * Rebuilds the type color and edge type assignments from the styles of a graph that was read from a file,
+ * so that the legend and subsequently imported items match the loaded graph.
+ */
+function restoreTypeStyles(graph: IGraph) {
+  Object.keys(typeColors).forEach(type => delete typeColors[type]);
+  recoloredTypes.clear();
+  Object.keys(edgeTypeStyles).forEach(predicate => delete edgeTypeStyles[predicate]);
+
+  // collapsed groups hide their content from the folding view, so look at the complete master graph
+  const masterGraph = getMasterGraph(graph);
+
+  masterGraph.nodes.forEach(node => {
+    const data = node.tag as NodeData | null;
+    const style = node.style;
+    const fill = style instanceof GroupNodeStyle ? style.tabFill : style instanceof ShinyPlateNodeStyle ? style.fill : null;
+    const color = toHexColor(fill);
+    if (data && data.type && color && !typeColors[data.type]) {
+      typeColors[data.type] = color;
+    }
+  });
+
+  masterGraph.edges.forEach(edge => {
+    const data = edge.tag as EdgeData | null;
+    const predicate = data ? getEdgePredicate(data) : '';
+    const stroke = edge.style instanceof PolylineEdgeStyle ? edge.style.stroke : null;
+    const color = stroke ? toHexColor(stroke.fill) : null;
+    if (!predicate || !stroke || !color || edgeTypeStyles[predicate]) {
+      return;
+    }
+    const dashKey = getDashKey(stroke.dashStyle);
+    const dashStyle = edgeDashStyles.find(candidate => getDashKey(candidate.dash) === dashKey) || edgeDashStyles[0];
+    edgeTypeStyles[predicate] = { color, dash: dashStyle.dash, dashArray: dashStyle.dashArray };
+  });
+}
+
+/**
+ * Returns the app state that is saved to project files in addition to the graph and the view.
+ */
+function getWorkspaceState(): WorkspaceState {
+  const edgeStyles: WorkspaceState['edgeTypeStyles'] = {};
+  for (const predicate in edgeTypeStyles) {
+    const { color, dashArray } = edgeTypeStyles[predicate];
+    edgeStyles[predicate] = { color, dashArray };
+  }
+  return {
+    datasetName,
+    typeColors: { ...typeColors },
+    recoloredTypes: [...recoloredTypes],
+    edgeTypeStyles: edgeStyles,
+    nodeLabelsVisible,
+    searchText: (document.getElementById('graph-search-input') as HTMLInputElement).value,
+    projection: getProjectionSettings(),
+    layoutFingerprint: computeLayoutFingerprint(getMasterGraph(graphComponent.graph)),
+    pinnedNodeIds: getPinnedNodeIds(),
+    grouping: getGroupingMode(),
+    styleRules: getStyleRules(),
+    hiddenTypes: getHiddenTypes(),
+    metrics: getMetricSettings(),
+    palette: getPaletteName()
+  };
+}
+
+async function applyWorkspaceState(state: WorkspaceState) {
+  datasetName = state.datasetName;
+  Object.keys(typeColors).forEach(type => delete typeColors[type]);
+  Object.assign(typeColors, state.typeColors);
+  recoloredTypes.clear();
+  (state.recoloredTypes || []).forEach(type => recoloredTypes.add(type));
+  Object.keys(edgeTypeStyles).forEach(predicate => delete edgeTypeStyles[predicate]);
+  for (const predicate in state.edgeTypeStyles) {
+    const { color, dashArray } = state.edgeTypeStyles[predicate];
+    const dashStyle = edgeDashStyles.find(candidate => candidate.dashArray === dashArray) || edgeDashStyles[0];
+    edgeTypeStyles[predicate] = { color, dash: dashStyle.dash, dashArray: dashStyle.dashArray };
+  }
+
+  nodeLabelsVisible = state.nodeLabelsVisible;
+  toggleNodeLabels(nodeLabelsVisible);
+  setPinnedNodeIds(state.pinnedNodeIds || []);
+  // the saved graph is already grouped and styled
+  setGroupingMode(state.grouping || 'parent');
+  // the rules come from a file or the browser storage and are not trusted
+  setStyleRules(readSavedStyleRules(state.styleRules));
+  setHiddenTypes(state.hiddenTypes || []);
+  if (state.metrics) {
+    setMetricSettings(state.metrics);
+  }
+  await computeMetrics();
+  setPaletteName(state.palette || 'vivid');
+  // the project may have been saved with the other theme
+  restyleGraph();
+
+  if (state.projection) {
+    setProjectionSettings(graphComponent, state.projection);
+  }
+
+  // the search highlights the matching nodes on input
+  const searchInput = document.getElementById('graph-search-input') as HTMLInputElement;
+  searchInput.value = state.searchText;
+  searchInput.dispatchEvent(new Event('input'));
+
+  createLegend();
+  updateLayoutFingerprint(state.layoutFingerprint);
+  scheduleSessionSave();
+}
+
+/**
+ * Fetches and imports the files of a dataset that is given by URL parameters or picked from the
+ * dataset manifest.
+ */
+async function loadDatasetSource(source: DatasetSource) {
+  let files;
+  try {
+    files = await fetchDatasetFiles(source);
+    if (files.project) {
+      const state = await readProject(graphComponent, await files.project.text());
+      await applyWorkspaceState({ ...state, datasetName: state.datasetName || files.project.name });
+    }
+  } catch (error) {
+    alert(`Could not load dataset: ${(error as Error).message}`);
+    return;
+  }
+  if (files.graphml) {
+    await openGraphMLFile(files.graphml);
+  }
+  if (files.rdf) {
+    await importRdfFile(files.rdf);
+  }
+  if (files.triples) {
+    await importTriplesFile(files.triples);
+  }
+  if (files.nodes && files.edges) {
+    // the pair is imported as soon as both tables are loaded
+    await loadCsvTable(files.nodes, 'nodes');
+    await loadCsvTable(files.edges, 'edges');
+  }
+}
+
+/**
+ * Opens a dataset from the browser storage, i.e. the previous session or a recent dataset.
+ */
+async function restoreDataset(dataset: StoredDataset) {
+  try {
+    await applyWorkspaceState(await readProject(graphComponent, dataset.project));
+  } catch (error) {
+    alert(`Could not restore ${dataset.name}: ${(error as Error).message}`);
+  }
+}
+
+function toHexColor(fill: Fill | null): string | null {
+  if (!(fill instanceof SolidColorFill)) {
+    return null;
+  }
+  const { r, g, b } = fill.color;
+  return '#' + [r, g, b].map(value => value.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+function getDashKey(dashStyle: DashStyle | null): string {
+  return dashStyle && dashStyle.dashes ? dashStyle.dashes.toArray().join(',') : '';
+}
+
+/**
+ * Shows the node types, edge types and style rules in the legend, with the number of items per type.
+ */
 function createLegend() {
-  const legendContainer = document.getElementById('legend') || document.createElement('div');
-  legendContainer.id = 'legend';
-  legendContainer.innerHTML = ''; // Clear existing content
-  legendContainer.style.position = 'absolute';
-  legendContainer.style.right = '10px';
-  legendContainer.style.top = '10px';
-  legendContainer.style.backgroundColor = 'white';
-  legendContainer.style.border = '1px solid black';
-  legendContainer.style.padding = '10px';
+  const masterGraph = getMasterGraph(graphComponent.graph);
+  const nodeCounts = new Map<string, number>();
+  masterGraph.nodes.forEach(node => {
+    const data = node.tag as NodeData | null;
+    if (data && !isTypeGroup(node)) {
+      nodeCounts.set(data.type, (nodeCounts.get(data.type) || 0) + 1);
+    }
+  });
+  const edgeCounts = new Map<string, number>();
+  masterGraph.edges.forEach(edge => {
+    const predicate = edge.tag ? getEdgePredicate(edge.tag as EdgeData) : '';
+    edgeCounts.set(predicate, (edgeCounts.get(predicate) || 0) + 1);
+  });
 
-  const legendTitle = document.createElement('div');
-  legendTitle.style.fontWeight = 'bold';
-  legendTitle.style.marginBottom = '5px';
-  legendTitle.textContent = 'Node Type Legend';
-  legendContainer.appendChild(legendTitle);
+  updateLegend(
+    Object.keys(typeColors).map(type => ({
+      type,
+      color: typeColors[type],
+      count: nodeCounts.get(type) || 0,
+      hidden: isTypeHidden(type)
+    })),
+    Object.keys(edgeTypeStyles).map(predicate => ({
+      predicate,
+      color: edgeTypeStyles[predicate].color,
+      dashArray: edgeTypeStyles[predicate].dashArray,
+      count: edgeCounts.get(predicate) || 0
+    })),
+    getStyleRules(),
+    getMetricGradient()
+  );
+}
 
-  for (const type in typeColors) {
-    const legendItem = document.createElement('div');
-    legendItem.style.display = 'flex';
-    legendItem.style.alignItems = 'center';
-    legendItem.style.marginBottom = '5px';
+/**
+ * Hides exactly the given node types. The nodes that are shown again are arranged incrementally,
+ * since the other nodes may have been moved in the meantime.
+ */
+async function showTypes(hiddenTypes: string[]) {
+  const shownNodes = setHiddenTypes(hiddenTypes);
+  createLegend();
+  if (shownNodes.length > 0) {
+    try {
+      await runIncrementalLayout(graphComponent, new Set(shownNodes), null);
+    } catch (error) {
+      alert(`Could not arrange the shown nodes: ${(error as Error).message}`);
+    }
+    updateLayoutFingerprint();
+  }
+  scheduleSessionSave();
+}
 
-    const colorBox = document.createElement('div');
-    colorBox.style.width = '15px';
-    colorBox.style.height = '15px';
-    colorBox.style.backgroundColor = typeColors[type];
-    colorBox.style.marginRight = '5px';
-    legendItem.appendChild(colorBox);
+/**
+ * Shows only the nodes of the given type, or all nodes if the type is already shown alone.
+ */
+function soloType(type: string) {
+  const otherTypes = Object.keys(typeColors).filter(other => other !== type);
+  const isSolo = !isTypeHidden(type) && otherTypes.every(isTypeHidden);
+  showTypes(isSolo ? [] : otherTypes);
+}
+
+function recolorType(type: string, color: string) {
+  typeColors[type] = color;
+  recoloredTypes.add(type);
+  const masterGraph = getMasterGraph(graphComponent.graph);
+  masterGraph.nodes.forEach(node => {
+    const data = node.tag as NodeData | null;
+    if (data && data.type === type) {
+      applyNodeRules(masterGraph, node);
+    }
+  });
+  createLegend();
+  scheduleSessionSave();
+}
 
-    const typeLabel = document.createElement('span');
-    typeLabel.textContent = type;
-    legendItem.appendChild(typeLabel);
+/**
+ * Renames a node type in the node records, its type group, its color assignment and the hidden
+ * types. Renaming a type to an existing one merges the two types.
+ */
+function renameType(type: string, newType: string) {
+  const masterGraph = getMasterGraph(graphComponent.graph);
+  const renamedNodes = masterGraph.nodes
+    .filter(node => !isTypeGroup(node) && !!node.tag && (node.tag as NodeData).type === type)
+    .toArray();
+  renamedNodes.forEach(node => {
+    node.tag = { ...(node.tag as NodeData), type: newType };
+  });
+  renameTypeGroup(masterGraph, type, newType);
+  // merged type groups are combined into one
+  applyGrouping(masterGraph, (node, isGroup) => setGroupNode(masterGraph, node, isGroup));
 
-    legendContainer.appendChild(legendItem);
+  if (typeColors[newType]) {
+    delete typeColors[type];
+    recoloredTypes.delete(type);
+  } else {
+    if (recoloredTypes.delete(type)) {
+      recoloredTypes.add(newType);
+    }
+    // the renamed type keeps its position in the legend
+    const entries = Object.entries(typeColors);
+    Object.keys(typeColors).forEach(key => delete typeColors[key]);
+    entries.forEach(([key, color]) => {
+      typeColors[key === type ? newType : key] = color;
+    });
   }
+  setHiddenTypes(getHiddenTypes().map(hidden => (hidden === type ? newType : hidden)));
 
-  document.body.appendChild(legendContainer);
+  // the style rules may depend on the type
+  renamedNodes.forEach(node => applyNodeRules(masterGraph, node));
+  createLegend();
+  scheduleSessionSave();
 }
 
 function toggleNodeLabels(visible: boolean) {
-  const graph = graphComponent.graph;
+  const graph = getCompleteGraph(graphComponent.graph);
   graph.nodes.forEach(node => {
     if (visible) {
-      const labelModel = new ExteriorLabelModel({ insets: 5 });
       if (node.labels.size === 0) {
-        graph.addLabel(node, node.tag, labelModel.createParameter(ExteriorLabelModelPosition.SOUTH));
+        const data = node.tag as NodeData;
+        graph.addLabel(node, data.label || '', getNodeLabelParameter(node, graph), getNodeLabelStyle(node, graph));
       }
     } else {
       node.labels.toArray().forEach(label => {
@@ -0,0 +1,204 @@
+import {
+  DefaultFolderNodeConverter,
+  FolderNodeState,
+  GraphComponent,
+  IFoldingView,
+  IGraph,
+  INode,
+  Rect
+} from 'yfiles'
+import { NodeData, resolveParentIds } from './lib/GraphData'
+
+/**
+ * How nodes are nested: in one group per type, in the node named in their `parent` column, or not
+ * at all.
+ */
+export type GroupingMode = 'none' | 'type' | 'parent'
+
+const TYPE_GROUP_ID_PREFIX = 'type-group:'
+
+/**
+ * The tag of the group nodes that are created for the types. The flag tells them apart from the
+ * imported nodes, also after saving and loading, since record values are always strings.
+ */
+interface TypeGroupData {
+  id: string
+  label: string
+  type: string
+  typeGroup: true
+}
+
+/**
+ * Shows the number of nodes in a collapsed group in its label.
+ */
+class CountingFolderNodeConverter extends DefaultFolderNodeConverter {
+  updateFolderNodeState(
+    state: FolderNodeState,
+    foldingView: IFoldingView,
+    viewNode: INode,
+    masterNode: INode
+  ): void {
+    super.updateFolderNodeState(state, foldingView, viewNode, masterNode)
+    const masterLabel = masterNode.labels.first()
+    const label = state.labels.first()
+    if (masterLabel && label) {
+      const masterGraph = foldingView.manager.masterGraph
+      const count = masterGraph.groupingSupport
+        .getDescendants(masterNode)
+        .filter((node) => !isTypeGroup(node))
+        .count()
+      label.text = `${masterLabel.text} (${count})`
+    }
+  }
+}
+
+let groupingMode: GroupingMode = 'parent'
+let groupingSelect: HTMLSelectElement | null = null
+
+/**
+ * Wires the grouping select and adds the node counts to collapsed groups.
+ * @param onChange Called after the user chose another grouping.
+ */
+export function initializeGrouping(
+  graphComponent: GraphComponent,
+  select: HTMLSelectElement,
+  onChange: () => void
+): void {
+  groupingSelect = select
+  select.value = groupingMode
+  select.addEventListener('change', () => {
+    groupingMode = select.value as GroupingMode
+    onChange()
+  })
+
+  const foldingView = graphComponent.graph.foldingView
+  if (foldingView) {
+    const converter: DefaultFolderNodeConverter = new CountingFolderNodeConverter()
+    converter.copyFirstLabel = true
+    foldingView.manager.folderNodeConverter = converter
+  }
+}
+
+export function getGroupingMode(): GroupingMode {
+  return groupingMode
+}
+
+export function setGroupingMode(mode: GroupingMode): void {
+  groupingMode = mode
+  if (groupingSelect) {
+    groupingSelect.value = mode
+  }
+}
+
+/**
+ * Whether the given node is one of the group nodes that are created for the types.
+ */
+export function isTypeGroup(node: INode): boolean {
+  const data = node.tag as Partial<TypeGroupData> | null
+  return !!data && data.typeGroup === true
+}
+
+/**
+ * Renames the type group of the given type, which keeps its content and its folding state.
+ */
+export function renameTypeGroup(masterGraph: IGraph, type: string, newType: string): void {
+  const group = masterGraph.nodes.find(
+    (node) => isTypeGroup(node) && (node.tag as NodeData).type === type
+  )
+  if (group) {
+    group.tag = createTypeGroupData(newType)
+    const label = group.labels.first()
+    if (label) {
+      masterGraph.setLabelText(label, newType)
+    }
+  }
+}
+
+function createTypeGroupData(type: string): TypeGroupData {
+  return { id: `${TYPE_GROUP_ID_PREFIX}${type}`, label: type, type, typeGroup: true }
+}
+
+/**
+ * Nests the nodes of the given graph according to the current grouping mode. Type groups are
+ * created and removed as needed, group nodes without content become normal nodes again.
+ * @param setGroupNode Turns a node into a group node or back and updates its style.
+ * @returns The created type groups and the nodes that have been moved to another group.
+ */
+export function applyGrouping(
+  masterGraph: IGraph,
+  setGroupNode: (node: INode, isGroup: boolean) => void
+): INode[] {
+  const dataNodes = masterGraph.nodes.filter((node) => !isTypeGroup(node)).toArray()
+  const nodesById = new Map(dataNodes.map((node) => [(node.tag as NodeData).id, node]))
+  const typeGroups = new Map(
+    masterGraph.nodes
+      .filter(isTypeGroup)
+      .map((node): [string, INode] => [(node.tag as NodeData).type, node])
+      .toArray()
+  )
+  const parentIds =
+    groupingMode === 'parent'
+      ? resolveParentIds(dataNodes.map((node) => node.tag as NodeData))
+      : new Map<string, string>()
+  const createdGroups: INode[] = []
+  const movedNodes: INode[] = []
+
+  const getTypeGroup = (type: string) => {
+    let group = typeGroups.get(type)
+    if (!group) {
+      group = masterGraph.createNode({ tag: createTypeGroupData(type) })
+      masterGraph.addLabel(group, type)
+      setGroupNode(group, true)
+      typeGroups.set(type, group)
+      createdGroups.push(group)
+    }
+    return group
+  }
+
+  const parents = new Map<INode, INode | null>()
+  for (const node of dataNodes) {
+    const data = node.tag as NodeData
+    if (groupingMode === 'type' && data.type) {
+      parents.set(node, getTypeGroup(data.type))
+    } else {
+      const parentId = parentIds.get(data.id)
+      parents.set(node, parentId !== undefined ? nodesById.get(parentId)! : null)
+    }
+  }
+  // the moved nodes leave their groups first, so that no intermediate nesting is cyclic
+  parents.forEach((parent, node) => {
+    if (masterGraph.getParent(node) !== parent) {
+      masterGraph.setParent(node, null)
+      movedNodes.push(node)
+    }
+  })
+  parents.forEach((parent, node) => {
+    if (parent) {
+      setGroupNode(parent, true)
+      if (masterGraph.getParent(node) !== parent) {
+        masterGraph.setParent(node, parent)
+      }
+    }
+  })
+
+  for (const node of masterGraph.nodes.toArray()) {
+    if (masterGraph.isGroupNode(node) && masterGraph.getChildren(node).size === 0) {
+      if (isTypeGroup(node)) {
+        masterGraph.remove(node)
+      } else {
+        setGroupNode(node, false)
+      }
+    }
+  }
+
+  // new groups start around their content
+  for (const group of createdGroups) {
+    const content = masterGraph
+      .getChildren(group)
+      .map((node) => node.layout.toRect())
+      .toArray()
+      .reduce((bounds, rect) => Rect.add(bounds, rect))
+    masterGraph.setNodeLayout(group, content.getEnlarged(20))
+  }
+  return [...createdGroups, ...movedNodes]
+}
@@ -0,0 +1,150 @@
+import './node-pinning.css'
+import {
+  GraphComponent,
+  GraphHighlightIndicatorManager,
+  GraphItemTypes,
+  GraphViewerInputMode,
+  IHitTestable,
+  INode,
+  IPositionHandler,
+  IRenderContext,
+  MoveInputMode,
+  NodeStyleBase,
+  Point,
+  SvgVisual
+} from 'yfiles'
+import { NodeData } from './lib/GraphData'
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+/**
+ * Draws a pin at the upper right corner of a pinned node.
+ */
+class PinIndicatorStyle extends NodeStyleBase {
+  protected createVisual(context: IRenderContext, node: INode): SvgVisual {
+    const { maxX, y } = node.layout
+    const g = document.createElementNS(SVG_NS, 'g')
+    g.setAttribute('class', 'pin-indicator')
+    g.setAttribute('transform', `translate(${maxX} ${y})`)
+    const needle = document.createElementNS(SVG_NS, 'line')
+    needle.setAttribute('x1', '0')
+    needle.setAttribute('y1', '0')
+    needle.setAttribute('x2', '-5')
+    needle.setAttribute('y2', '5')
+    const head = document.createElementNS(SVG_NS, 'circle')
+    head.setAttribute('r', '4')
+    g.append(needle, head)
+    return new SvgVisual(g)
+  }
+}
+
+const pinnedNodeIds = new Set<string>()
+const pinIndicatorManager = new GraphHighlightIndicatorManager({
+  nodeStyle: new PinIndicatorStyle()
+})
+
+let graphComponent: GraphComponent | null = null
+let onPinnedChanged: (() => void) | null = null
+
+/**
+ * Adds the mode in which nodes can be dragged. Dragged nodes are pinned, i.e. the layout
+ * algorithms keep them where they are.
+ * @param moveButton Toggles the mode.
+ * @param onChange Called after nodes have been moved or (un)pinned.
+ */
+export function initializeNodePinning(
+  component: GraphComponent,
+  moveButton: HTMLButtonElement,
+  onChange: () => void
+): void {
+  graphComponent = component
+  onPinnedChanged = onChange
+  pinIndicatorManager.install(component)
+
+  const inputMode = component.inputMode as GraphViewerInputMode
+  const findNode = (location: Point) =>
+    inputMode.findItems(location, [GraphItemTypes.NODE]).first() as INode | null
+
+  let draggedNode: INode | null = null
+  const moveInputMode = new MoveInputMode({
+    enabled: false,
+    // nodes are dragged instead of panning the viewport
+    priority: inputMode.moveViewportInputMode.priority - 1,
+    hitTestable: IHitTestable.create((_, location) => findNode(location) !== null)
+  })
+  moveInputMode.addQueryPositionHandlerListener((_, evt) => {
+    draggedNode = findNode(evt.queryLocation)
+    const handler = draggedNode?.lookup(IPositionHandler.$class) as IPositionHandler | null
+    if (handler) {
+      evt.positionHandler = handler
+      evt.handled = true
+    }
+  })
+  moveInputMode.addDragFinishedListener(() => {
+    if (draggedNode) {
+      component.graph.groupingSupport.enlargeAllGroupNodes()
+      setPinned([draggedNode], true)
+      draggedNode = null
+    }
+  })
+  inputMode.add(moveInputMode)
+
+  moveButton.addEventListener('click', () => {
+    moveInputMode.enabled = !moveInputMode.enabled
+    moveButton.setAttribute('aria-pressed', String(moveInputMode.enabled))
+  })
+
+  // expanding groups creates the view nodes of pinned nodes again
+  component.graph.addNodeCreatedListener((_, evt) => {
+    if (isPinned(evt.item)) {
+      pinIndicatorManager.addHighlight(evt.item)
+    }
+  })
+}
+
+export function isPinned(node: INode): boolean {
+  const data = node.tag as NodeData | null
+  return !!data && pinnedNodeIds.has(data.id)
+}
+
+/**
+ * Pins or unpins the given nodes.
+ */
+export function setPinned(nodes: INode[], pinned: boolean): void {
+  for (const node of nodes) {
+    const data = node.tag as NodeData | null
+    if (!data) {
+      continue
+    }
+    if (pinned) {
+      pinnedNodeIds.add(data.id)
+    } else {
+      pinnedNodeIds.delete(data.id)
+    }
+  }
+  updatePinIndicators()
+  onPinnedChanged?.()
+}
+
+/**
+ * Returns the ids of the pinned nodes, which are saved with the workspace.
+ */
+export function getPinnedNodeIds(): string[] {
+  return Array.from(pinnedNodeIds)
+}
+
+export function setPinnedNodeIds(ids: string[]): void {
+  pinnedNodeIds.clear()
+  ids.forEach((id) => pinnedNodeIds.add(id))
+  updatePinIndicators()
+}
+
+function updatePinIndicators(): void {
+  if (!graphComponent) {
+    return
+  }
+  pinIndicatorManager.clearHighlights()
+  graphComponent.graph.nodes
+    .filter(isPinned)
+    .forEach((node) => pinIndicatorManager.addHighlight(node))
+}
@@ -0,0 +1,137 @@
+import { GraphData, NodeData } from './lib/GraphData'
+import { isOwlXml, parseOwlXml } from './lib/OwlXmlParser'
+import { compactIri, OWL_NS, RDF_NS, RDF_TYPE, RDFS_NS, RdfDocument, Triple } from './lib/RdfParser'
+import { parseRdfXml, parseXml } from './lib/RdfXmlParser'
+import { convertRdfToGraphData } from './rdf-import'
+
+/**
+ * The file extensions of the OWL serializations that {@link importOwl} understands.
+ */
+export const OWL_FILE_EXTENSIONS = ['owl', 'rdf', 'owx', 'xml']
+
+const RDFS_SUBCLASS_OF = RDFS_NS + 'subClassOf'
+const CLASS_TYPES = [OWL_NS + 'Class', RDFS_NS + 'Class']
+
+/**
+ * Schema resources that describe the ontology itself rather than its taxonomy and individuals.
+ */
+const SCHEMA_TYPES = [
+  'owl:Ontology',
+  'owl:ObjectProperty',
+  'owl:DatatypeProperty',
+  'owl:AnnotationProperty',
+  'rdf:Property'
+]
+
+/**
+ * Parses an OWL ontology in RDF/XML or OWL/XML syntax. The class hierarchy is mapped to nested
+ * groups: each class is placed inside the group of its (first) named superclass and each
+ * individual inside the group of its class.
+ */
+export async function importOwl(file: File): Promise<GraphData> {
+  const text = await file.text()
+  const document = isOwlXml(parseXml(text)) ? parseOwlXml(text) : parseRdfXml(text)
+  return convertOwlToGraphData(document)
+}
+
+export function convertOwlToGraphData(document: RdfDocument): GraphData {
+  const { triples, prefixes } = document
+  const { nodes, edges } = convertRdfToGraphData(document)
+
+  // anonymous class expressions, restrictions and property declarations would only clutter the taxonomy
+  const retainedNodes = nodes.filter(
+    (node) => !node.id.startsWith('_:') && !SCHEMA_TYPES.includes(node.type)
+  )
+  const nodesById = new Map(retainedNodes.map((node) => [node.id, node]))
+
+  const classes = findClasses(triples)
+  for (const classId of classes) {
+    let node = nodesById.get(classId)
+    if (!node) {
+      // classes that are only referenced, e.g. as type of an individual, still get a group
+      node = { id: classId, type: '', label: compactIri(classId, prefixes) }
+      retainedNodes.push(node)
+      nodesById.set(classId, node)
+    }
+    if (node.type === 'rdfs:Resource' || !node.type) {
+      node.type = 'owl:Class'
+    }
+  }
+  const parents = new Map<string, string>()
+
+  const setParent = (child: NodeData, parentId: string): boolean => {
+    if (
+      parents.has(child.id) ||
+      !nodesById.has(parentId) ||
+      createsCycle(parents, child.id, parentId)
+    ) {
+      return false
+    }
+    parents.set(child.id, parentId)
+    child.parent = parentId
+    return true
+  }
+
+  for (const { subject, predicate, object } of triples) {
+    const node = nodesById.get(subject.value)
+    if (!node || object.termType !== 'NamedNode' || object.value === OWL_NS + 'Thing') {
+      continue
+    }
+    if (predicate.value === RDFS_SUBCLASS_OF && classes.has(subject.value)) {
+      setParent(node, object.value)
+    } else if (
+      predicate.value === RDF_TYPE &&
+      !classes.has(subject.value) &&
+      classes.has(object.value) &&
+      setParent(node, object.value)
+    ) {
+      // an individual is colored by its class rather than by owl:NamedIndividual
+      node.type = compactIri(object.value, prefixes)
+    }
+  }
+
+  // the subclass relation to the enclosing group is represented by the nesting
+  const retainedEdges = edges.filter(
+    (edge) =>
+      nodesById.has(edge.source) &&
+      nodesById.has(edge.target) &&
+      !(edge.predicate === 'rdfs:subClassOf' && parents.get(edge.source) === edge.target)
+  )
+
+  return { nodes: retainedNodes, edges: retainedEdges }
+}
+
+function findClasses(triples: Triple[]): Set<string> {
+  const classes = new Set<string>()
+  for (const { subject, predicate, object } of triples) {
+    if (subject.termType !== 'NamedNode' || object.termType !== 'NamedNode') {
+      continue
+    }
+    if (predicate.value === RDF_TYPE && CLASS_TYPES.includes(object.value)) {
+      classes.add(subject.value)
+    } else if (predicate.value === RDF_TYPE && !isBuiltIn(object.value)) {
+      classes.add(object.value)
+    } else if (predicate.value === RDFS_SUBCLASS_OF && object.value !== OWL_NS + 'Thing') {
+      classes.add(subject.value)
+      classes.add(object.value)
+    }
+  }
+  return classes
+}
+
+function isBuiltIn(iri: string): boolean {
+  return [RDF_NS, RDFS_NS, OWL_NS].some((namespace) => iri.startsWith(namespace))
+}
+
+/**
+ * Whether nesting the child in the given parent would make the child its own ancestor, which may
+ * happen for cyclic (i.e. equivalent) subclass declarations.
+ */
+function createsCycle(parents: Map<string, string>, childId: string, parentId: string): boolean {
+  for (let ancestor: string | undefined = parentId; ancestor; ancestor = parents.get(ancestor)) {
+    if (ancestor === childId) {
+      return true
+    }
+  }
+  return false
+}
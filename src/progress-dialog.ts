@@ -0,0 +1,74 @@
+import './progress-dialog.css'
+
+export interface ProgressDialog {
+  /**
+   * Shows the given message and progress. Without a fraction, the progress bar is indeterminate.
+   */
+  update(message: string, fraction?: number): void
+  /**
+   * Closes the dialog without notifying the cancel callback.
+   */
+  close(): void
+}
+
+/**
+ * Short operations finish before the dialog appears, so that it does not flicker.
+ */
+const SHOW_DELAY = 300
+
+/**
+ * Shows a modal dialog with a progress bar and a Cancel button for a long-running operation.
+ * @param onCancel Called if the user cancels the operation, either with the button or Escape.
+ */
+export function showProgressDialog(title: string, onCancel: () => void): ProgressDialog {
+  const dialog = document.createElement('dialog')
+  dialog.id = 'progress-dialog'
+  dialog.innerHTML = `
+<div class="user-input-title"></div>
+<form method="dialog">
+  <p class="progress-message"></p>
+  <progress max="1"></progress>
+  <div class="progress-actions">
+    <button value="cancel">Cancel</button>
+  </div>
+</form>
+  `
+  dialog.querySelector('.user-input-title')!.textContent = title
+  const messageElement = dialog.querySelector('.progress-message')!
+  const progressElement = dialog.querySelector('progress')!
+
+  let closed = false
+  dialog.addEventListener('close', () => {
+    if (!closed) {
+      closed = true
+      onCancel()
+    }
+    document.body.removeChild(dialog)
+  })
+
+  document.body.appendChild(dialog)
+  const timeout = setTimeout(() => dialog.showModal(), SHOW_DELAY)
+
+  return {
+    update(message: string, fraction?: number): void {
+      messageElement.textContent = message
+      if (fraction === undefined) {
+        progressElement.removeAttribute('value')
+      } else {
+        progressElement.value = fraction
+      }
+    },
+    close(): void {
+      if (closed) {
+        return
+      }
+      closed = true
+      clearTimeout(timeout)
+      if (dialog.open) {
+        dialog.close()
+      } else {
+        document.body.removeChild(dialog)
+      }
+    }
+  }
+}
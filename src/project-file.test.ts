@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { parseProject, ProjectContent, serializeProject } from './project-file'
+import type { WorkspaceState } from './project-io'
+
+// every field is set, so that the round trip covers all of them
+const state: Required<WorkspaceState> = {
+  datasetName: 'pizza.json',
+  typeColors: { Pizza: '#E69F00', Topping: '#56B4E9' },
+  recoloredTypes: ['Pizza'],
+  edgeTypeStyles: { hasTopping: { color: '#009E73', dashArray: '6,3' } },
+  nodeLabelsVisible: false,
+  searchText: 'Margherita',
+  projection: { mode: 'oblique', obliqueAngle: 30 },
+  layoutFingerprint: '3f2a9c41',
+  pinnedNodeIds: ['Margherita', 'Cheese'],
+  grouping: 'type',
+  styleRules: [
+    {
+      name: 'Vegetarian',
+      target: 'node',
+      when: [{ property: 'vegetarian', equals: 'yes' }],
+      style: { fill: '#009E73' }
+    }
+  ],
+  hiddenTypes: ['Topping'],
+  metrics: {
+    sizeMetric: 'page-rank',
+    colorMetric: 'in-degree',
+    minSize: 20,
+    maxSize: 80,
+    lowColor: '#FFFFCC',
+    highColor: '#800026'
+  },
+  palette: 'okabe-ito'
+}
+
+const content: ProjectContent = {
+  state,
+  graphml: '<graphml/>',
+  view: { projection: [1, 0, 0, 1, 10, 20], zoom: 1.5, viewPoint: { x: -40, y: 25 } }
+}
+
+describe('project files', () => {
+  it('restore every field of the workspace state', () => {
+    expect(parseProject(serializeProject(content))).toEqual(content)
+  })
+
+  it('fill in the defaults of fields that older projects lack', () => {
+    const { graphml, view } = content
+    const { state: defaults } = parseProject(
+      JSON.stringify({ format: 'ontology-viewer-project', version: 1, graphml, view })
+    )
+    expect(defaults).toEqual({
+      datasetName: '',
+      typeColors: {},
+      recoloredTypes: [],
+      edgeTypeStyles: {},
+      nodeLabelsVisible: true,
+      searchText: '',
+      pinnedNodeIds: [],
+      hiddenTypes: []
+    })
+  })
+})
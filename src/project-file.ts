@@ -0,0 +1,81 @@
+import type { WorkspaceState } from './project-io'
+
+const PROJECT_FORMAT = 'ontology-viewer-project'
+const PROJECT_VERSION = 1
+
+/**
+ * The view transform that a project restores.
+ */
+export interface ProjectView {
+  /** The elements of the projection matrix */
+  projection: number[]
+  zoom: number
+  viewPoint: { x: number; y: number }
+}
+
+/**
+ * The parts of a project file: the workspace state, the graph and the view.
+ */
+export interface ProjectContent {
+  state: WorkspaceState
+  /** The graph with layout, styles, records and folding state */
+  graphml: string
+  view: ProjectView
+}
+
+interface ProjectFile extends WorkspaceState {
+  format: typeof PROJECT_FORMAT
+  version: number
+  graphml: string
+  view: ProjectView
+}
+
+/**
+ * Returns the JSON text of a project file with the given content.
+ */
+export function serializeProject({ state, graphml, view }: ProjectContent): string {
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    ...state,
+    graphml,
+    view
+  }
+  return JSON.stringify(project, null, 2)
+}
+
+/**
+ * Reads the content of a project file. Fields that older projects lack get their defaults.
+ * @throws Error if the text is not a project file of a supported version.
+ */
+export function parseProject(text: string): ProjectContent {
+  const project = JSON.parse(text) as ProjectFile
+  if (!project || project.format !== PROJECT_FORMAT) {
+    throw new Error('Not a project file')
+  }
+  if (project.version > PROJECT_VERSION) {
+    throw new Error(`Unsupported project version ${project.version}`)
+  }
+
+  return {
+    state: {
+      datasetName: project.datasetName || '',
+      typeColors: project.typeColors || {},
+      recoloredTypes: project.recoloredTypes || [],
+      edgeTypeStyles: project.edgeTypeStyles || {},
+      nodeLabelsVisible: project.nodeLabelsVisible !== false,
+      searchText: project.searchText || '',
+      projection: project.projection,
+      layoutFingerprint: project.layoutFingerprint,
+      pinnedNodeIds: project.pinnedNodeIds || [],
+      grouping: project.grouping,
+      // the rules are validated when they are applied
+      styleRules: project.styleRules,
+      hiddenTypes: project.hiddenTypes || [],
+      metrics: project.metrics,
+      palette: project.palette
+    },
+    graphml: project.graphml,
+    view: project.view
+  }
+}
@@ -0,0 +1,102 @@
+import { GraphComponent, Matrix, Point } from 'yfiles'
+import { readGraphML, writeGraphML } from './graphml-io'
+import { FileIoSupport } from './lib/FileIoSupport'
+import { GroupingMode } from './node-grouping'
+import { MetricSettings } from './graph-metrics'
+import { PaletteName } from './lib/ColorPalettes'
+import { parseProject, serializeProject } from './project-file'
+import { ProjectionSettings } from './projection'
+import { StyleRule } from './lib/StyleRules'
+
+/**
+ * The parts of the workspace that the app keeps in its own state rather than in the graph.
+ */
+export interface WorkspaceState {
+  /** The name of the loaded dataset, usually derived from the imported file names */
+  datasetName: string
+  typeColors: { [type: string]: string }
+  /** The node types whose color the user chose in the legend */
+  recoloredTypes?: string[]
+  /** The color and SVG dash array of each edge predicate */
+  edgeTypeStyles: { [predicate: string]: { color: string; dashArray: string } }
+  nodeLabelsVisible: boolean
+  searchText: string
+  /** The projection mode, missing in projects that only store the projection matrix */
+  projection?: ProjectionSettings
+  /** The fingerprint of the coordinates, to check that re-imported data is laid out identically */
+  layoutFingerprint?: string
+  /** The ids of the nodes that keep their position in layouts */
+  pinnedNodeIds?: string[]
+  grouping?: GroupingMode
+  /** The rules that map the records to styles, applied to the saved graph already */
+  styleRules?: StyleRule[]
+  /** The node types that the legend hides */
+  hiddenTypes?: string[]
+  /** The metrics that determine the node size and color, applied to the saved graph already */
+  metrics?: MetricSettings
+  /** The palette new types are colored with */
+  palette?: PaletteName
+}
+
+/**
+ * Saves the graph together with the view transform and the given workspace state to a JSON
+ * project file.
+ */
+export async function saveProject(
+  graphComponent: GraphComponent,
+  state: WorkspaceState,
+  fileName = 'project.json'
+): Promise<void> {
+  await FileIoSupport.saveToFile(await writeProject(graphComponent, state), fileName)
+}
+
+/**
+ * Returns the project file content for the current graph, view and the given workspace state.
+ */
+export async function writeProject(
+  graphComponent: GraphComponent,
+  state: WorkspaceState
+): Promise<string> {
+  const { viewPoint } = graphComponent
+  return serializeProject({
+    state,
+    graphml: await writeGraphML(graphComponent.graph),
+    view: {
+      projection: graphComponent.projection.elements.slice(),
+      zoom: graphComponent.zoom,
+      viewPoint: { x: viewPoint.x, y: viewPoint.y }
+    }
+  })
+}
+
+/**
+ * Lets the user pick a project file and restores its graph and view.
+ * @returns The workspace state of the project, which the caller has to apply.
+ */
+export async function openProject(graphComponent: GraphComponent): Promise<WorkspaceState> {
+  const file = await FileIoSupport.openFile('.json')
+  const state = await readProject(graphComponent, await file.text())
+  return { ...state, datasetName: state.datasetName || file.name }
+}
+
+/**
+ * Restores the graph and view of the given project file content.
+ * @returns The workspace state of the project, which the caller has to apply.
+ */
+export async function readProject(
+  graphComponent: GraphComponent,
+  text: string
+): Promise<WorkspaceState> {
+  const { state, graphml, view } = parseProject(text)
+
+  await readGraphML(graphComponent.graph, graphml)
+
+  const { projection, zoom, viewPoint } = view
+  const [m11, m12, m21, m22, dx, dy] = projection
+  graphComponent.projection = new Matrix(m11, m12, m21, m22, dx, dy)
+  graphComponent.updateContentRect()
+  graphComponent.zoom = zoom
+  graphComponent.viewPoint = new Point(viewPoint.x, viewPoint.y)
+
+  return state
+}
@@ -0,0 +1,132 @@
+import { GraphComponent, Matrix } from 'yfiles'
+
+export type ProjectionMode = 'flat' | 'isometric' | 'oblique'
+
+export interface ProjectionSettings {
+  mode: ProjectionMode
+  /** The angle of the receding axis of the oblique projection, in degrees */
+  obliqueAngle: number
+}
+
+/**
+ * The foreshortening of the receding axis of the oblique projection. Half the length is known as
+ * cabinet projection.
+ */
+const OBLIQUE_DEPTH = 0.5
+
+const TRANSITION_DURATION = 500
+
+let settings: ProjectionSettings = { mode: 'isometric', obliqueAngle: 45 }
+let modeSelect: HTMLSelectElement | null = null
+let angleInput: HTMLInputElement | null = null
+
+/**
+ * Wires the projection controls of the toolbar. Changing the projection animates the view.
+ * @param onChange Called after the projection has been changed by the user.
+ */
+export function initializeProjectionControls(
+  graphComponent: GraphComponent,
+  onChange: () => void
+): void {
+  modeSelect = document.getElementById('projection-mode') as HTMLSelectElement
+  angleInput = document.getElementById('oblique-angle') as HTMLInputElement
+  updateControls()
+
+  const change = async () => {
+    settings = {
+      mode: modeSelect!.value as ProjectionMode,
+      obliqueAngle: Number(angleInput!.value)
+    }
+    updateControls()
+    await animateProjection(graphComponent, createProjectionMatrix(settings))
+    graphComponent.fitGraphBounds()
+    onChange()
+  }
+  modeSelect.addEventListener('change', change)
+  angleInput.addEventListener('change', change)
+}
+
+export function getProjectionSettings(): ProjectionSettings {
+  return { ...settings }
+}
+
+/**
+ * Sets the projection of the view immediately, e.g. when a project is opened.
+ */
+export function setProjectionSettings(
+  graphComponent: GraphComponent,
+  projectionSettings: ProjectionSettings
+): void {
+  settings = { ...projectionSettings }
+  updateControls()
+  applyProjection(graphComponent)
+}
+
+/**
+ * Applies the current projection to the view without animation.
+ */
+export function applyProjection(graphComponent: GraphComponent): void {
+  graphComponent.projection = createProjectionMatrix(settings)
+}
+
+export function createProjectionMatrix({ mode, obliqueAngle }: ProjectionSettings): Matrix {
+  switch (mode) {
+    case 'isometric':
+      return new Matrix(
+        Math.cos(Math.PI / 6),
+        -Math.cos(Math.PI / 6),
+        Math.sin(Math.PI / 6),
+        Math.sin(Math.PI / 6),
+        0,
+        0
+      )
+    case 'oblique': {
+      // the graph plane is seen from the front, its y-axis recedes in the given angle
+      const angle = (obliqueAngle * Math.PI) / 180
+      return new Matrix(
+        1,
+        OBLIQUE_DEPTH * Math.cos(angle),
+        0,
+        OBLIQUE_DEPTH * Math.sin(angle),
+        0,
+        0
+      )
+    }
+    case 'flat':
+    default:
+      return new Matrix()
+  }
+}
+
+function updateControls(): void {
+  if (modeSelect && angleInput) {
+    modeSelect.value = settings.mode
+    angleInput.value = String(settings.obliqueAngle)
+    angleInput.hidden = settings.mode !== 'oblique'
+  }
+}
+
+/**
+ * Interpolates the projection matrix from the current to the given one.
+ */
+function animateProjection(graphComponent: GraphComponent, target: Matrix): Promise<void> {
+  const start = graphComponent.projection.elements.slice()
+  const end = target.elements.slice()
+  const startTime = performance.now()
+
+  return new Promise((resolve) => {
+    const step = (time: number) => {
+      const t = Math.min(1, (time - startTime) / TRANSITION_DURATION)
+      // ease in and out
+      const f = t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2
+      const [m11, m12, m21, m22, dx, dy] = start.map((value, i) => value + (end[i] - value) * f)
+      graphComponent.projection = new Matrix(m11, m12, m21, m22, dx, dy)
+      if (t < 1) {
+        requestAnimationFrame(step)
+      } else {
+        resolve()
+      }
+    }
+    requestAnimationFrame(step)
+  })
+}
@@ -0,0 +1,92 @@
+import { EdgeData, GraphData, NodeData } from './lib/GraphData'
+import {
+  compactIri,
+  parseTurtle,
+  RDF_TYPE,
+  RDFS_LABEL,
+  RdfDocument,
+  RdfTerm
+} from './lib/RdfParser'
+
+/**
+ * The file extensions of the RDF serializations that {@link importRdf} understands.
+ */
+export const RDF_FILE_EXTENSIONS = ['ttl', 'nt']
+
+/**
+ * The node type of resources without an `rdf:type` statement.
+ */
+const UNTYPED_RESOURCE = 'rdfs:Resource'
+
+/**
+ * Record keys that are used by the importer itself and must not be overwritten by literal values.
+ */
+const RESERVED_PROPERTIES = ['id', 'type', 'label', 'parent']
+
+/**
+ * Parses a Turtle or N-Triples file and converts its statements to node and edge records.
+ */
+export async function importRdf(file: File): Promise<GraphData> {
+  const text = await file.text()
+  return convertRdfToGraphData(parseTurtle(text))
+}
+
+/**
+ * Converts RDF statements to node and edge records:
+ * - every subject and every resource in object position becomes a node,
+ * - `rdf:type` determines the node type,
+ * - literal values become node properties (`rdfs:label` also becomes the node label),
+ * - all other statements between resources become edges typed by their predicate.
+ */
+export function convertRdfToGraphData(document: RdfDocument): GraphData {
+  const { triples, prefixes } = document
+  const nodes = new Map<string, NodeData>()
+  const edges: EdgeData[] = []
+
+  const getNode = (term: RdfTerm): NodeData => {
+    let node = nodes.get(term.value)
+    if (!node) {
+      node = { id: term.value, type: '' }
+      nodes.set(term.value, node)
+    }
+    return node
+  }
+
+  for (const { subject, predicate, object } of triples) {
+    const node = getNode(subject)
+    const compactPredicate = compactIri(predicate.value, prefixes)
+    const property = RESERVED_PROPERTIES.includes(compactPredicate)
+      ? predicate.value
+      : compactPredicate
+
+    if (predicate.value === RDF_TYPE && object.termType === 'NamedNode') {
+      const type = compactIri(object.value, prefixes)
+      // a resource may have several types, the first one determines the color
+      node.type = node.type || type
+      addPropertyValue(node, property, type)
+    } else if (object.termType === 'Literal') {
+      if (predicate.value === RDFS_LABEL) {
+        // prefer untagged or English labels over other languages
+        if (!node.label || !object.language || object.language.startsWith('en')) {
+          node.label = object.value
+        }
+      }
+      addPropertyValue(node, property, object.value)
+    } else {
+      getNode(object)
+      edges.push({ source: subject.value, target: object.value, predicate: compactPredicate })
+    }
+  }
+
+  for (const node of nodes.values()) {
+    node.type = node.type || UNTYPED_RESOURCE
+    node.label = node.label || compactIri(node.id, prefixes)
+  }
+
+  return { nodes: Array.from(nodes.values()), edges }
+}
+
+function addPropertyValue(node: NodeData, property: string, value: string): void {
+  const existing = node[property]
+  node[property] = existing ? `${existing}, ${value}` : value
+}
@@ -0,0 +1,435 @@
+import './rendering.css'
+import {
+  BaseClass,
+  Color,
+  DashStyle,
+  DefaultLabelStyle,
+  Fill,
+  GraphComponent,
+  GraphFocusIndicatorManager,
+  GraphHighlightIndicatorManager,
+  GraphModelManager,
+  GraphSelectionIndicatorManager,
+  GroupNodeStyle,
+  ICanvasObject,
+  ICanvasObjectDescriptor,
+  ICanvasContext,
+  IEdge,
+  IEdgeStyle,
+  IGraph,
+  ILabel,
+  IModelItem,
+  INode,
+  INodeStyle,
+  IRenderContext,
+  IVisualCreator,
+  PolylineEdgeStyle,
+  ShapeNodeShape,
+  ShapeNodeStyle,
+  ShinyPlateNodeStyle,
+  SolidColorFill,
+  Stroke,
+  Visual,
+  WebGL2ArrowType,
+  WebGL2DashStyle,
+  WebGL2DefaultLabelStyle,
+  WebGL2FocusIndicatorManager,
+  WebGL2GraphModelManager,
+  WebGL2GroupNodeStyle,
+  WebGL2HighlightIndicatorManager,
+  WebGL2PolylineEdgeStyle,
+  WebGL2SelectionIndicatorManager,
+  WebGL2ShapeNodeShape,
+  WebGL2ShapeNodeStyle,
+  WebGL2Stroke
+} from 'yfiles'
+
+export interface RenderingSettings {
+  /** Labels are hidden below this zoom */
+  labelZoom: number
+  /** Nodes and edges are drawn as plain rectangles and lines below this zoom */
+  simpleStyleZoom: number
+  /** Whether the graph is drawn with WebGL2 instead of SVG */
+  webGL: boolean
+}
+
+const DEFAULT_SETTINGS: RenderingSettings = { labelZoom: 0.4, simpleStyleZoom: 0.2, webGL: false }
+
+const RENDERING_STORAGE_KEY = 'ontology-viewer-rendering'
+
+const WEBGL_SHAPES = new Map<ShapeNodeShape, WebGL2ShapeNodeShape>([
+  [ShapeNodeShape.RECTANGLE, WebGL2ShapeNodeShape.RECTANGLE],
+  [ShapeNodeShape.ELLIPSE, WebGL2ShapeNodeShape.ELLIPSE],
+  [ShapeNodeShape.HEXAGON, WebGL2ShapeNodeShape.HEXAGON],
+  [ShapeNodeShape.OCTAGON, WebGL2ShapeNodeShape.OCTAGON],
+  [ShapeNodeShape.TRIANGLE, WebGL2ShapeNodeShape.TRIANGLE]
+])
+
+const WEBGL_DASHES = new Map<string, WebGL2DashStyle>([
+  [getDashKey(DashStyle.DASH), WebGL2DashStyle.DASH],
+  [getDashKey(DashStyle.DOT), WebGL2DashStyle.DOT],
+  [getDashKey(DashStyle.DASH_DOT), WebGL2DashStyle.DASH_DOT]
+])
+
+const hiddenWebGLLabelStyle = new WebGL2DefaultLabelStyle({ textColor: Color.TRANSPARENT })
+
+let settings: RenderingSettings = { ...DEFAULT_SETTINGS }
+let graphComponent: GraphComponent | null = null
+let labelsVisible = true
+
+/** The simplified styles by the detailed style they replace when zoomed out */
+const simpleStyles = new WeakMap<INodeStyle | IEdgeStyle, INodeStyle | IEdgeStyle | null>()
+/** Whether a visual of a node or edge has been created with the simplified style */
+const simpleVisuals = new WeakMap<Visual, boolean>()
+
+/**
+ * Creates the visual of a node or edge with its own style or, below the zoom threshold, with a
+ * simplified style. The item keeps its style, so hit tests, selection and export are not affected.
+ */
+class LevelOfDetailVisualCreator extends BaseClass(IVisualCreator) {
+  constructor(
+    private readonly detailed: IVisualCreator,
+    private readonly simple: IVisualCreator | null
+  ) {
+    super()
+  }
+
+  createVisual(context: IRenderContext): Visual | null {
+    const simplified = this.isSimplified(context)
+    const visual = (simplified ? this.simple! : this.detailed).createVisual(context)
+    if (visual) {
+      simpleVisuals.set(visual, simplified)
+    }
+    return visual
+  }
+
+  updateVisual(context: IRenderContext, oldVisual: Visual | null): Visual | null {
+    const simplified = this.isSimplified(context)
+    if (!oldVisual || simpleVisuals.get(oldVisual) !== simplified) {
+      // the zoom crossed the threshold, so the visual of the other style cannot be reused
+      return this.createVisual(context)
+    }
+    const visual = (simplified ? this.simple! : this.detailed).updateVisual(context, oldVisual)
+    if (visual) {
+      simpleVisuals.set(visual, simplified)
+    }
+    return visual
+  }
+
+  private isSimplified(context: IRenderContext): boolean {
+    return !!this.simple && context.zoom < settings.simpleStyleZoom
+  }
+}
+
+/**
+ * Wraps the descriptor with which the graph model manager draws the nodes or the edges.
+ */
+class LevelOfDetailDescriptor extends BaseClass(ICanvasObjectDescriptor) {
+  constructor(
+    private readonly wrapped: ICanvasObjectDescriptor,
+    private readonly getSimpleStyle: (item: INode | IEdge) => INodeStyle | IEdgeStyle | null
+  ) {
+    super()
+  }
+
+  getVisualCreator(item: unknown): IVisualCreator {
+    const style = item instanceof INode || item instanceof IEdge ? this.getSimpleStyle(item) : null
+    return new LevelOfDetailVisualCreator(
+      this.wrapped.getVisualCreator(item),
+      style ? style.renderer.getVisualCreator(item, style) : null
+    )
+  }
+
+  isDirty(context: ICanvasContext, canvasObject: ICanvasObject): boolean {
+    // the visual creator decides whether the visual can be updated or has to be replaced
+    return true
+  }
+
+  getBoundsProvider(item: unknown) {
+    return this.wrapped.getBoundsProvider(item)
+  }
+
+  getVisibilityTestable(item: unknown) {
+    return this.wrapped.getVisibilityTestable(item)
+  }
+
+  getHitTestable(item: unknown) {
+    return this.wrapped.getHitTestable(item)
+  }
+}
+
+/**
+ * Wires the rendering dialog with the given button. Labels are hidden and nodes and edges are
+ * simplified below configurable zoom levels, and the graph can be drawn with WebGL2. Like the theme,
+ * the settings depend on the machine rather than on the data, so they are kept in the local storage.
+ */
+export function initializeRendering(component: GraphComponent, button: HTMLButtonElement): void {
+  graphComponent = component
+  settings = loadSettings()
+  if (!isWebGLSupported()) {
+    settings.webGL = false
+  }
+  installGraphModelManager()
+
+  component.addZoomChangedListener(updateLabelVisibility)
+
+  // keep the WebGL styles in sync with the styles of the items
+  const graph = component.graph
+  graph.addNodeCreatedListener((_, evt) => updateWebGLStyle(evt.item))
+  graph.addNodeStyleChangedListener((_, evt) => updateWebGLStyle(evt.item))
+  graph.addEdgeCreatedListener((_, evt) => updateWebGLStyle(evt.item))
+  graph.addEdgeStyleChangedListener((_, evt) => updateWebGLStyle(evt.item))
+  graph.addLabelAddedListener((_, evt) => updateWebGLStyle(evt.item))
+  graph.addLabelStyleChangedListener((_, evt) => updateWebGLStyle(evt.item))
+
+  button.addEventListener('click', showRenderingDialog)
+}
+
+/**
+ * Updates the WebGL styles of all items after the graph has been restyled.
+ */
+export function refreshRendering(): void {
+  if (settings.webGL) {
+    updateWebGLStyles()
+  }
+}
+
+function installGraphModelManager(): void {
+  const component = graphComponent!
+  // a new graph model manager shows the labels
+  labelsVisible = true
+  if (settings.webGL) {
+    component.graphModelManager = new WebGL2GraphModelManager()
+    component.selectionIndicatorManager = new WebGL2SelectionIndicatorManager()
+    component.highlightIndicatorManager = new WebGL2HighlightIndicatorManager()
+    component.focusIndicatorManager = new WebGL2FocusIndicatorManager()
+    updateWebGLStyles()
+  } else {
+    const manager = new GraphModelManager()
+    manager.nodeDescriptor = new LevelOfDetailDescriptor(manager.nodeDescriptor, getSimpleStyle)
+    manager.edgeDescriptor = new LevelOfDetailDescriptor(manager.edgeDescriptor, getSimpleStyle)
+    component.graphModelManager = manager
+    component.selectionIndicatorManager = new GraphSelectionIndicatorManager()
+    component.highlightIndicatorManager = new GraphHighlightIndicatorManager()
+    component.focusIndicatorManager = new GraphFocusIndicatorManager()
+  }
+  updateLabelVisibility()
+}
+
+function updateLabelVisibility(): void {
+  const visible = graphComponent!.zoom >= settings.labelZoom
+  if (visible === labelsVisible) {
+    return
+  }
+  labelsVisible = visible
+  if (settings.webGL) {
+    const graph = graphComponent!.graph
+    graph.labels.forEach((label) => updateWebGLStyle(label))
+  } else {
+    const manager = graphComponent!.graphModelManager
+    manager.nodeLabelGroup.visible = visible
+    manager.edgeLabelGroup.visible = visible
+  }
+}
+
+/**
+ * Returns the simplified style of a node or an edge, or `null` if the item keeps its style.
+ */
+function getSimpleStyle(item: INode | IEdge): INodeStyle | IEdgeStyle | null {
+  return item instanceof INode ? getSimpleNodeStyle(item) : getSimpleEdgeStyle(item)
+}
+
+/**
+ * Returns a plain rectangle with the fill of the node, or `null` if the node keeps its style.
+ */
+function getSimpleNodeStyle(node: INode): INodeStyle | null {
+  const style = node.style
+  if (!simpleStyles.has(style)) {
+    simpleStyles.set(
+      style,
+      style instanceof ShinyPlateNodeStyle || style instanceof ShapeNodeStyle
+        ? new ShapeNodeStyle({ shape: ShapeNodeShape.RECTANGLE, fill: style.fill, stroke: null })
+        : null
+    )
+  }
+  return simpleStyles.get(style) as INodeStyle | null
+}
+
+/**
+ * Returns a thin line without arrow in the color of the edge, or `null` if the edge keeps its style.
+ */
+function getSimpleEdgeStyle(edge: IEdge): IEdgeStyle | null {
+  const style = edge.style
+  if (!simpleStyles.has(style)) {
+    simpleStyles.set(
+      style,
+      style instanceof PolylineEdgeStyle && style.stroke
+        ? new PolylineEdgeStyle({ stroke: new Stroke(style.stroke.fill, 1) })
+        : null
+    )
+  }
+  return simpleStyles.get(style) as IEdgeStyle | null
+}
+
+function updateWebGLStyles(): void {
+  const graph = graphComponent!.graph
+  graph.nodes.forEach((node) => updateWebGLStyle(node))
+  graph.edges.forEach((edge) => updateWebGLStyle(edge))
+  graph.labels.forEach((label) => updateWebGLStyle(label))
+}
+
+/**
+ * Draws the item with the WebGL style that resembles its style.
+ */
+function updateWebGLStyle(item: IModelItem): void {
+  if (!settings.webGL) {
+    return
+  }
+  const manager = graphComponent!.graphModelManager as WebGL2GraphModelManager
+  const graph = graphComponent!.graph
+  if (item instanceof INode) {
+    manager.setStyle(item, createWebGLNodeStyle(item, graph))
+  } else if (item instanceof IEdge) {
+    manager.setStyle(item, createWebGLEdgeStyle(item))
+  } else if (item instanceof ILabel) {
+    manager.setStyle(item, labelsVisible ? createWebGLLabelStyle(item) : hiddenWebGLLabelStyle)
+  }
+}
+
+function createWebGLNodeStyle(node: INode, graph: IGraph) {
+  const style = node.style
+  if (style instanceof GroupNodeStyle) {
+    return new WebGL2GroupNodeStyle({
+      tabFill: toColor(style.tabFill),
+      contentAreaFill: toColor(style.contentAreaFill),
+      showFolderContentArea: !graph.isGroupNode(node)
+    })
+  }
+  if (style instanceof ShapeNodeStyle) {
+    return new WebGL2ShapeNodeStyle({
+      shape: WEBGL_SHAPES.get(style.shape) ?? WebGL2ShapeNodeShape.ROUND_RECTANGLE,
+      fill: toColor(style.fill),
+      stroke: style.stroke
+        ? new WebGL2Stroke({ color: toColor(style.stroke.fill), thickness: style.stroke.thickness })
+        : null
+    })
+  }
+  return new WebGL2ShapeNodeStyle({
+    shape: WebGL2ShapeNodeShape.ROUND_RECTANGLE,
+    fill: toColor(style instanceof ShinyPlateNodeStyle ? style.fill : null)
+  })
+}
+
+function createWebGLEdgeStyle(edge: IEdge) {
+  const style = edge.style
+  const stroke = style instanceof PolylineEdgeStyle ? style.stroke : null
+  return new WebGL2PolylineEdgeStyle({
+    stroke: new WebGL2Stroke({
+      color: toColor(stroke ? stroke.fill : null),
+      thickness: stroke ? stroke.thickness : 1,
+      dashStyle:
+        WEBGL_DASHES.get(getDashKey(stroke ? stroke.dashStyle : null)) ?? WebGL2DashStyle.SOLID
+    }),
+    targetArrow: WebGL2ArrowType.DEFAULT
+  })
+}
+
+function createWebGLLabelStyle(label: ILabel) {
+  const style = label.style
+  return style instanceof DefaultLabelStyle
+    ? new WebGL2DefaultLabelStyle({ font: style.font, textColor: toColor(style.textFill) })
+    : new WebGL2DefaultLabelStyle()
+}
+
+function toColor(fill: Fill | null): Color {
+  return fill instanceof SolidColorFill ? fill.color : Color.GRAY
+}
+
+function getDashKey(dashStyle: DashStyle | null): string {
+  return dashStyle && dashStyle.dashes ? dashStyle.dashes.toArray().join(',') : ''
+}
+
+function isWebGLSupported(): boolean {
+  return !!document.createElement('canvas').getContext('webgl2')
+}
+
+function loadSettings(): RenderingSettings {
+  try {
+    const stored = localStorage.getItem(RENDERING_STORAGE_KEY)
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_SETTINGS }
+  } catch (error) {
+    // the storage may be disabled or hold settings of an older version
+    return { ...DEFAULT_SETTINGS }
+  }
+}
+
+function storeSettings(): void {
+  try {
+    localStorage.setItem(RENDERING_STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    // the settings are just not remembered then
+  }
+}
+
+function showRenderingDialog(): void {
+  const dialog = document.createElement('dialog')
+  dialog.id = 'rendering-dialog'
+  dialog.innerHTML = `
+<div class="user-input-title">Rendering</div>
+<form method="dialog">
+  <label>
+    Hide labels below zoom
+    <input type="number" name="labelZoom" min="0" max="4" step="0.05" required />
+  </label>
+  <label>
+    Simplify nodes and edges below zoom
+    <input type="number" name="simpleStyleZoom" min="0" max="4" step="0.05" required />
+  </label>
+  <label class="rendering-webgl">
+    <input type="checkbox" name="webGL" />
+    Draw with WebGL
+  </label>
+  <p class="rendering-hint"></p>
+  <div class="rendering-actions">
+    <button value="close">Close</button>
+  </div>
+</form>
+  `
+  const form = dialog.querySelector('form')!
+  const labelZoom = form.elements.namedItem('labelZoom') as HTMLInputElement
+  const simpleStyleZoom = form.elements.namedItem('simpleStyleZoom') as HTMLInputElement
+  const webGL = form.elements.namedItem('webGL') as HTMLInputElement
+  labelZoom.value = String(settings.labelZoom)
+  simpleStyleZoom.value = String(settings.simpleStyleZoom)
+  webGL.checked = settings.webGL
+  if (isWebGLSupported()) {
+    dialog.querySelector('.rendering-hint')!.textContent =
+      'WebGL draws very large graphs much faster, with simpler node and edge shapes.'
+  } else {
+    webGL.disabled = true
+    dialog.querySelector('.rendering-hint')!.textContent = 'This browser does not support WebGL2.'
+  }
+
+  form.addEventListener('change', () => {
+    if (!labelZoom.checkValidity() || !simpleStyleZoom.checkValidity()) {
+      return
+    }
+    const switchRenderer = webGL.checked !== settings.webGL
+    settings = {
+      labelZoom: Number(labelZoom.value),
+      simpleStyleZoom: Number(simpleStyleZoom.value),
+      webGL: webGL.checked
+    }
+    storeSettings()
+    if (switchRenderer) {
+      installGraphModelManager()
+    } else {
+      updateLabelVisibility()
+      graphComponent!.invalidate()
+    }
+  })
+
+  dialog.addEventListener('close', () => document.body.removeChild(dialog))
+  document.body.appendChild(dialog)
+  dialog.showModal()
+}
@@ -0,0 +1,148 @@
+import './session-restore.css'
+import { GraphComponent, GraphViewerInputMode } from 'yfiles'
+import { SessionStore, StoredDataset } from './lib/SessionStore'
+import { WorkspaceState, writeProject } from './project-io'
+
+/**
+ * Changes in quick succession, e.g. while importing, are saved only once.
+ */
+const SAVE_DELAY = 1000
+
+const sessionStore = new SessionStore()
+
+let graphComponent: GraphComponent | null = null
+let getWorkspaceState: (() => WorkspaceState) | null = null
+let recentDatasetsSelect: HTMLSelectElement | null = null
+let saveTimeout: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * Saves the current dataset with its layout and view state to the browser storage whenever the
+ * folding state changes and when {@link scheduleSessionSave} is called, and lists the recently
+ * opened datasets in the given select. Since saving serializes the whole graph, panning and zooming
+ * do not trigger it; the viewport is saved with the next change of the graph.
+ * @param onOpenRecent Called with the dataset the user chose from the recent datasets.
+ */
+export function initializeSessionPersistence(
+  component: GraphComponent,
+  workspaceStateProvider: () => WorkspaceState,
+  recentSelect: HTMLSelectElement,
+  onOpenRecent: (dataset: StoredDataset) => void
+): void {
+  graphComponent = component
+  getWorkspaceState = workspaceStateProvider
+  recentDatasetsSelect = recentSelect
+
+  const navigationInputMode = (component.inputMode as GraphViewerInputMode).navigationInputMode
+  navigationInputMode.addGroupCollapsedListener(scheduleSessionSave)
+  navigationInputMode.addGroupExpandedListener(scheduleSessionSave)
+
+  recentSelect.addEventListener('change', async () => {
+    const name = recentSelect.value
+    recentSelect.value = ''
+    const dataset = name ? await sessionStore.loadRecent(name) : null
+    if (dataset) {
+      onOpenRecent(dataset)
+    }
+  })
+  updateRecentDatasets()
+}
+
+/**
+ * Saves the session after a short delay. Empty graphs are not saved, so that starting the app
+ * does not overwrite the previous session.
+ */
+export function scheduleSessionSave(): void {
+  if (saveTimeout) {
+    clearTimeout(saveTimeout)
+  }
+  saveTimeout = setTimeout(() => {
+    saveTimeout = null
+    saveSession()
+  }, SAVE_DELAY)
+}
+
+async function saveSession(): Promise<void> {
+  if (!graphComponent || !getWorkspaceState || graphComponent.graph.nodes.size === 0) {
+    return
+  }
+  const state = getWorkspaceState()
+  try {
+    await sessionStore.save({
+      name: state.datasetName || 'Untitled',
+      savedAt: Date.now(),
+      project: await writeProject(graphComponent, state)
+    })
+    await updateRecentDatasets()
+  } catch (error) {
+    // the browser storage may be unavailable or full, the session is just not kept then
+  }
+}
+
+async function updateRecentDatasets(): Promise<void> {
+  if (!recentDatasetsSelect) {
+    return
+  }
+  let datasets: StoredDataset[] = []
+  try {
+    datasets = await sessionStore.listRecent()
+  } catch (error) {
+    // without storage, there are no recent datasets
+  }
+  const select = recentDatasetsSelect
+  select.innerHTML = ''
+  select.add(new Option('Recent datasets...', ''))
+  for (const { name, savedAt } of datasets) {
+    const option = new Option(name, name)
+    option.title = `Last opened ${new Date(savedAt).toLocaleString()}`
+    select.add(option)
+  }
+  select.disabled = datasets.length === 0
+}
+
+/**
+ * Asks whether to restore the session of the previous visit, if there is one.
+ * @returns The stored session or `null` if there is none or the user wants to start empty.
+ */
+export async function offerSessionRestore(): Promise<StoredDataset | null> {
+  let session: StoredDataset | null = null
+  try {
+    session = await sessionStore.loadSession()
+  } catch (error) {
+    // without storage, there is nothing to restore
+  }
+  if (!session) {
+    return null
+  }
+  const restore = await showRestoreDialog(session)
+  return restore ? session : null
+}
+
+function showRestoreDialog(session: StoredDataset): Promise<boolean> {
+  return new Promise((resolve) => {
+    const dialog = document.createElement('dialog')
+    dialog.id = 'session-restore-dialog'
+    dialog.innerHTML = `
+<div class="user-input-title">
+  Restore Previous Session
+</div>
+<form method="dialog">
+  <p>Continue with <b class="session-name"></b> as it was left on <span class="session-date"></span>?</p>
+  <div class="session-restore-actions">
+    <button value="empty">Start Empty</button>
+    <button value="restore" autofocus>Restore</button>
+  </div>
+</form>
+  `
+    dialog.querySelector('.session-name')!.textContent = session.name
+    dialog.querySelector('.session-date')!.textContent = new Date(session.savedAt).toLocaleString()
+
+    dialog.addEventListener('close', () => {
+      resolve(dialog.returnValue === 'restore')
+      document.body.removeChild(dialog)
+    })
+
+    document.body.appendChild(dialog)
+
+    dialog.showModal()
+  })
+}
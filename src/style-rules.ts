@@ -0,0 +1,202 @@
+import './style-rules.css'
+import {
+  DashStyle,
+  DefaultLabelStyle,
+  Font,
+  FontWeight,
+  ILabelStyle,
+  ImageNodeStyle,
+  INodeStyle,
+  ShapeNodeShape,
+  ShapeNodeStyle,
+  ShinyPlateNodeStyle,
+  Size,
+  Stroke
+} from 'yfiles'
+import {
+  EdgeDash,
+  LabelStyleProperties,
+  NodeShape,
+  NodeStyleProperties,
+  parseStyleRules,
+  StyleRule
+} from './lib/StyleRules'
+
+/**
+ * Rules are applied once the user stopped typing for this long.
+ */
+const APPLY_DELAY = 400
+
+const EXAMPLE_RULES = `[
+  { "name": "Classes", "target": "node", "when": { "type": "Class" }, "style": { "shape": "ellipse" } },
+  { "target": "node", "when": { "property": "weight", "min": 10 }, "style": { "width": 60, "height": 60 } },
+  { "target": "edge", "when": { "type": "subClassOf" }, "style": { "thickness": 4, "dash": "solid" } }
+]`
+
+const SHAPES: { [shape in NodeShape]: ShapeNodeShape } = {
+  rectangle: ShapeNodeShape.RECTANGLE,
+  'round-rectangle': ShapeNodeShape.ROUND_RECTANGLE,
+  ellipse: ShapeNodeShape.ELLIPSE,
+  diamond: ShapeNodeShape.DIAMOND,
+  triangle: ShapeNodeShape.TRIANGLE,
+  hexagon: ShapeNodeShape.HEXAGON,
+  octagon: ShapeNodeShape.OCTAGON
+}
+
+const DASHES: { [dash in EdgeDash]: DashStyle } = {
+  solid: DashStyle.SOLID,
+  dash: DashStyle.DASH,
+  dot: DashStyle.DOT,
+  'dash-dot': DashStyle.DASH_DOT
+}
+
+/**
+ * The SVG dash arrays of the dash styles, used for the legend.
+ */
+export const DASH_ARRAYS: { [dash in EdgeDash]: string } = {
+  solid: '',
+  dash: '6,3',
+  dot: '2,2',
+  'dash-dot': '6,3,2,3'
+}
+
+const DEFAULT_NODE_SIZE = new Size(30, 30)
+
+let styleRules: StyleRule[] = []
+let rulesText = ''
+
+/**
+ * Opens the style rules editor with the given button. Valid rules are applied while the user types.
+ * @param onChange Called after the rules have changed.
+ */
+export function initializeStyleRules(button: HTMLButtonElement, onChange: () => void): void {
+  button.addEventListener('click', () => showStyleRulesDialog(onChange))
+}
+
+export function getStyleRules(): StyleRule[] {
+  return styleRules
+}
+
+export function setStyleRules(rules: StyleRule[]): void {
+  styleRules = rules
+  rulesText = rules.length > 0 ? JSON.stringify(rules, null, 2) : ''
+}
+
+/**
+ * Creates the style of a node that is not a group node. Nodes without a shape, border or icon keep
+ * the default look.
+ * @param color The color of the node type, which is used if the rules do not set a fill.
+ * @param borderColor The color of the border if the rules do not set one.
+ */
+export function createRuleNodeStyle(
+  properties: NodeStyleProperties,
+  color: string,
+  borderColor: string
+): INodeStyle {
+  const fill = properties.fill || color
+  if (properties.icon) {
+    return new ImageNodeStyle({ image: properties.icon })
+  }
+  if (!properties.shape && !properties.borderColor && properties.borderWidth === undefined) {
+    return new ShinyPlateNodeStyle({ fill })
+  }
+  return new ShapeNodeStyle({
+    shape: SHAPES[properties.shape || 'round-rectangle'],
+    fill,
+    stroke: new Stroke({
+      fill: properties.borderColor || borderColor,
+      thickness: properties.borderWidth ?? 1
+    })
+  })
+}
+
+/**
+ * Returns the size of a node that is not a group node.
+ */
+export function getRuleNodeSize(properties: NodeStyleProperties): Size {
+  return new Size(
+    properties.width ?? DEFAULT_NODE_SIZE.width,
+    properties.height ?? DEFAULT_NODE_SIZE.height
+  )
+}
+
+export function getRuleDashStyle(dash: EdgeDash): DashStyle {
+  return DASHES[dash]
+}
+
+/**
+ * Creates the label style for the font properties of the rules.
+ * @param textColor The color of the text if the rules do not set one.
+ */
+export function createRuleLabelStyle(
+  properties: LabelStyleProperties,
+  textColor: string
+): ILabelStyle {
+  const { fontSize, fontFamily, fontWeight, labelColor } = properties
+  if (fontSize === undefined && !fontFamily && !fontWeight) {
+    return new DefaultLabelStyle({ textFill: labelColor || textColor })
+  }
+  return new DefaultLabelStyle({
+    font: new Font({
+      fontFamily: fontFamily || 'Arial',
+      fontSize: fontSize ?? 12,
+      fontWeight: fontWeight === 'bold' ? FontWeight.BOLD : FontWeight.NORMAL
+    }),
+    textFill: labelColor || textColor
+  })
+}
+
+function showStyleRulesDialog(onChange: () => void): void {
+  const dialog = document.createElement('dialog')
+  dialog.id = 'style-rules-dialog'
+  dialog.innerHTML = `
+<div class="user-input-title">Style Rules</div>
+<form method="dialog">
+  <p class="style-rules-hint">
+    Each rule sets the style of the nodes or edges that meet all of its conditions. Later rules
+    override earlier ones. For example:
+  </p>
+  <pre class="style-rules-example"></pre>
+  <textarea spellcheck="false" rows="16"></textarea>
+  <p class="style-rules-error" role="alert"></p>
+  <div class="style-rules-actions">
+    <button value="close">Close</button>
+  </div>
+</form>
+  `
+  dialog.querySelector('.style-rules-example')!.textContent = EXAMPLE_RULES
+  const textarea = dialog.querySelector('textarea')!
+  const errorElement = dialog.querySelector('.style-rules-error')!
+  textarea.value = rulesText
+
+  let timeout: ReturnType<typeof setTimeout> | null = null
+  const applyRules = () => {
+    timeout = null
+    rulesText = textarea.value
+    try {
+      styleRules = rulesText.trim() ? parseStyleRules(rulesText) : []
+    } catch (error) {
+      // the previous rules stay in effect until the text is valid again
+      errorElement.textContent = (error as Error).message
+      return
+    }
+    errorElement.textContent = ''
+    onChange()
+  }
+  textarea.addEventListener('input', () => {
+    if (timeout) {
+      clearTimeout(timeout)
+    }
+    timeout = setTimeout(applyRules, APPLY_DELAY)
+  })
+
+  dialog.addEventListener('close', () => {
+    if (timeout) {
+      clearTimeout(timeout)
+      applyRules()
+    }
+    document.body.removeChild(dialog)
+  })
+  document.body.appendChild(dialog)
+  dialog.showModal()
+}
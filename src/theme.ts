@@ -0,0 +1,110 @@
+import './theme.css'
+import { COLOR_PALETTES, PaletteName } from './lib/ColorPalettes'
+
+export type Theme = 'light' | 'dark'
+
+/**
+ * The colors of the graph items that do not depend on a type.
+ */
+export interface ThemeColors {
+  /** The color of labels and untyped edges */
+  foreground: string
+  /** The fill of the content area of expanded groups */
+  groupContent: string
+}
+
+const THEME_COLORS: { [theme in Theme]: ThemeColors } = {
+  light: { foreground: '#000000', groupContent: 'rgba(255, 255, 255, 0.8)' },
+  dark: { foreground: '#E0E0E0', groupContent: 'rgba(40, 40, 40, 0.8)' }
+}
+
+const THEME_STORAGE_KEY = 'ontology-viewer-theme'
+
+let theme: Theme = 'light'
+let paletteName: PaletteName = 'vivid'
+let paletteSelect: HTMLSelectElement | null = null
+
+/**
+ * Applies the theme the user chose last, or the one of the operating system, and lets the given
+ * button switch between the light and the dark theme. The theme is a preference of the user, so it
+ * is kept in the local storage rather than in the project.
+ * @param onChange Called after the theme has changed.
+ */
+export function initializeTheme(button: HTMLButtonElement, onChange: () => void): void {
+  let stored: string | null = null
+  try {
+    stored = localStorage.getItem(THEME_STORAGE_KEY)
+  } catch (error) {
+    // the storage may be disabled
+  }
+  const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches
+  applyTheme(
+    button,
+    stored === 'dark' || stored === 'light' ? stored : prefersDark ? 'dark' : 'light'
+  )
+
+  button.addEventListener('click', () => {
+    applyTheme(button, theme === 'dark' ? 'light' : 'dark')
+    try {
+      localStorage.setItem(THEME_STORAGE_KEY, theme)
+    } catch (error) {
+      // the theme is just not remembered then
+    }
+    onChange()
+  })
+}
+
+export function getThemeColors(): ThemeColors {
+  return THEME_COLORS[theme]
+}
+
+/**
+ * Whether the given color is the color of labels and untyped edges in one of the themes.
+ */
+export function isThemeForeground(color: string | null): boolean {
+  return Object.values(THEME_COLORS).some((colors) => colors.foreground === color)
+}
+
+/**
+ * Lists the color palettes in the given select, the color-blind safe ones first.
+ * @param onChange Called after the user chose another palette.
+ */
+export function initializePaletteSelect(select: HTMLSelectElement, onChange: () => void): void {
+  paletteSelect = select
+  for (const colorBlindSafe of [true, false]) {
+    const group = document.createElement('optgroup')
+    group.label = colorBlindSafe ? 'Color-blind safe' : 'Other'
+    for (const [name, palette] of Object.entries(COLOR_PALETTES)) {
+      if (palette.colorBlindSafe === colorBlindSafe) {
+        group.appendChild(new Option(palette.label, name))
+      }
+    }
+    select.appendChild(group)
+  }
+  select.value = paletteName
+  select.addEventListener('change', () => {
+    paletteName = select.value as PaletteName
+    onChange()
+  })
+}
+
+export function getPaletteName(): PaletteName {
+  return paletteName
+}
+
+export function setPaletteName(name: PaletteName): void {
+  paletteName = name in COLOR_PALETTES ? name : 'vivid'
+  if (paletteSelect) {
+    paletteSelect.value = paletteName
+  }
+}
+
+export function getPaletteColors(): string[] {
+  return COLOR_PALETTES[paletteName].colors
+}
+
+function applyTheme(button: HTMLButtonElement, newTheme: Theme): void {
+  theme = newTheme
+  document.documentElement.dataset.theme = theme
+  button.setAttribute('aria-pressed', String(theme === 'dark'))
+}
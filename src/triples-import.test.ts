@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { convertTriplesTable } from './triples-import'
+
+describe('convertTriplesTable', () => {
+  it('connects unquoted objects that also occur as subjects', () => {
+    const { nodes, edges } = convertTriplesTable('Pizza,hasTopping,Cheese\nCheese,a,Topping\n')
+
+    expect(nodes.map((node) => node.id)).toEqual(['Pizza', 'Cheese'])
+    expect(edges).toEqual([{ source: 'Pizza', target: 'Cheese', predicate: 'hasTopping' }])
+  })
+
+  it('stores unquoted numbers and plain text as literal properties', () => {
+    const { nodes, edges } = convertTriplesTable(
+      [
+        'Pizza,calories,800',
+        'Pizza,origin,Naples',
+        'Pizza,hasTopping,Cheese',
+        'Pizza,hasTopping,Basil',
+        'Cheese,calories,300'
+      ].join('\n')
+    )
+
+    expect(nodes.map((node) => node.id)).toEqual(['Pizza', 'Cheese', 'Basil'])
+    expect(nodes[0]).toEqual(
+      expect.objectContaining({ id: 'Pizza', calories: '800', origin: 'Naples' })
+    )
+    expect(nodes[1]).toEqual(expect.objectContaining({ id: 'Cheese', calories: '300' }))
+    expect(edges).toEqual([
+      { source: 'Pizza', target: 'Cheese', predicate: 'hasTopping' },
+      { source: 'Pizza', target: 'Basil', predicate: 'hasTopping' }
+    ])
+  })
+
+  it('stores quoted and tagged objects as literal properties', () => {
+    const { nodes, edges } = convertTriplesTable(
+      [
+        'subject,predicate,object',
+        'Pizza,name,"""Margherita"""',
+        'Pizza,price,12.5^^xsd:decimal',
+        'Pizza,origin,Italien@de'
+      ].join('\n')
+    )
+
+    expect(edges).toEqual([])
+    expect(nodes).toEqual([
+      expect.objectContaining({ id: 'Pizza', name: 'Margherita', price: '12.5', origin: 'Italien' })
+    ])
+  })
+
+  it('reads unquoted labels as literals', () => {
+    const { nodes, edges } = convertTriplesTable('Pizza,label,Margherita\n')
+
+    expect(edges).toEqual([])
+    expect(nodes).toEqual([expect.objectContaining({ id: 'Pizza', label: 'Margherita' })])
+  })
+})
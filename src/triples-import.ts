@@ -0,0 +1,178 @@
+import Papa from 'papaparse'
+import { GraphData } from './lib/GraphData'
+import { RDF_TYPE, RDFS_LABEL, RdfTerm, Triple, WELL_KNOWN_PREFIXES } from './lib/RdfParser'
+import { convertRdfToGraphData } from './rdf-import'
+
+/**
+ * The file extensions of the triple tables that {@link importTriples} understands.
+ */
+export const TRIPLES_FILE_EXTENSIONS = ['csv', 'tsv', 'txt']
+
+/**
+ * Predicates that assign the node type, compared case-insensitively.
+ */
+const TYPE_PREDICATES = ['a', 'type', 'rdf:type', RDF_TYPE]
+
+/**
+ * Predicates that provide the node label, compared case-insensitively.
+ */
+const LABEL_PREDICATES = ['label', 'rdfs:label', RDFS_LABEL]
+
+/**
+ * Quoted objects, optionally with a datatype or language tag, as in Turtle.
+ */
+const QUOTED_LITERAL = /^"(.*)"(?:@([\w-]+)|\^\^(\S+))?$/s
+
+/**
+ * Unquoted objects with a datatype or language tag.
+ */
+const TAGGED_LITERAL = /^([^"<\s]\S*?)(?:@([A-Za-z]{1,8}(?:-[A-Za-z0-9]{1,8})*)|\^\^(\S+))$/
+
+/**
+ * Header rows are recognized by these column names and skipped. Headers with `source` and `target`
+ * columns are left to the edges CSV, which reads the relation from a `predicate` or `relation`
+ * column.
+ */
+const HEADER_NAMES = [
+  ['subject', 'predicate', 'object'],
+  ['s', 'p', 'o']
+]
+
+/**
+ * Parses a CSV or TSV file with subject, predicate and object columns, with or without header
+ * row, and converts it like an RDF document:
+ * - subjects and resource objects become nodes,
+ * - `type`/`rdf:type` statements assign the node type,
+ * - literal objects become node properties (`label`/`rdfs:label` also becomes the node label),
+ * - all other statements become edges typed by their predicate.
+ *
+ * Like in Turtle, literals are quoted, optionally with a datatype or language tag, as in `"42"`,
+ * `"42"^^xsd:int` or `"Hallo"@de` (in a CSV cell, the quotes are doubled: `"""Hallo""@de"`). A
+ * datatype or language tag alone marks a literal as well, as in `42^^xsd:int` or `Hallo@de`.
+ * Whether other objects are resources or literals is decided per predicate: they are resources if
+ * one of them is written as IRI, prefixed name or blank node, or also occurs as subject. So
+ * `Pizza,hasTopping,Cheese` connects two nodes if Cheese is described as well, while
+ * `Pizza,calories,800` becomes a node property. The objects of type statements are always
+ * resources, those of label statements always literals.
+ */
+export async function importTriples(file: File): Promise<GraphData> {
+  return convertTriplesTable(await file.text())
+}
+
+export function convertTriplesTable(text: string): GraphData {
+  // the delimiter (comma, tab or semicolon) is detected from the content
+  const { data, errors } = Papa.parse<string[]>(text, { header: false, skipEmptyLines: 'greedy' })
+  if (errors.length > 0) {
+    const { row, message } = errors[0]
+    throw new Error(row !== undefined ? `Line ${row + 1}: ${message}` : message)
+  }
+
+  const rows = data.map((row) => row.map((cell) => cell.trim()))
+  const firstLine = rows.length > 0 && isTriplesHeader(rows[0]) ? 2 : 1
+  const statements = firstLine === 2 ? rows.slice(1) : rows
+
+  statements.forEach((row, index) => {
+    if (row.length < 3 || !row[0] || !row[1]) {
+      throw new Error(`Line ${index + firstLine}: Expected subject, predicate and object`)
+    }
+  })
+
+  const subjects = new Set(statements.map(([subject]) => parseResource(subject).value))
+  const parsed = statements.map(([subject, predicate, object]) => ({
+    subject: parseResource(subject),
+    predicate: parsePredicate(predicate),
+    object
+  }))
+  const resourcePredicates = new Set([RDF_TYPE])
+  for (const { predicate, object } of parsed) {
+    if (
+      predicate.value !== RDFS_LABEL &&
+      !isLiteral(object) &&
+      (isResourceSyntax(object) || subjects.has(parseResource(object).value))
+    ) {
+      resourcePredicates.add(predicate.value)
+    }
+  }
+
+  const triples: Triple[] = parsed.map(({ subject, predicate, object }) => ({
+    subject,
+    predicate,
+    object: parseObject(object, resourcePredicates.has(predicate.value))
+  }))
+
+  return convertRdfToGraphData({ triples, prefixes: { ...WELL_KNOWN_PREFIXES } })
+}
+
+/**
+ * Whether the given row is the header row of a triple table.
+ */
+export function isTriplesHeader(row: string[]): boolean {
+  const names = row.slice(0, 3).map((cell) => cell.toLowerCase())
+  return HEADER_NAMES.some((header) => header.every((name, i) => names[i] === name))
+}
+
+function parsePredicate(value: string): RdfTerm {
+  const name = value.toLowerCase()
+  if (TYPE_PREDICATES.includes(name)) {
+    return { termType: 'NamedNode', value: RDF_TYPE }
+  }
+  if (LABEL_PREDICATES.includes(name)) {
+    return { termType: 'NamedNode', value: RDFS_LABEL }
+  }
+  return parseResource(value)
+}
+
+function parseResource(value: string): RdfTerm {
+  if (value.startsWith('_:')) {
+    return { termType: 'BlankNode', value }
+  }
+  if (value.startsWith('<') && value.endsWith('>')) {
+    return { termType: 'NamedNode', value: value.substring(1, value.length - 1) }
+  }
+  return { termType: 'NamedNode', value: expandPrefixedName(value) ?? value }
+}
+
+/**
+ * @param isResource Whether the unquoted objects of the predicate are resources.
+ */
+function parseObject(value: string, isResource: boolean): RdfTerm {
+  const literal = QUOTED_LITERAL.exec(value)
+  if (literal) {
+    const [, text, language, datatype] = literal
+    return { termType: 'Literal', value: text.replace(/""/g, '"'), language, datatype }
+  }
+  const tagged = TAGGED_LITERAL.exec(value)
+  if (tagged) {
+    const [, text, language, datatype] = tagged
+    return { termType: 'Literal', value: text, language, datatype }
+  }
+  return isResource ? parseResource(value) : { termType: 'Literal', value }
+}
+
+/**
+ * Whether the object is quoted or tagged, i.e. a literal regardless of its predicate.
+ */
+function isLiteral(value: string): boolean {
+  return QUOTED_LITERAL.test(value) || TAGGED_LITERAL.test(value)
+}
+
+/**
+ * Whether the object is written as IRI, blank node or name with a well-known prefix.
+ */
+function isResourceSyntax(value: string): boolean {
+  return (
+    (value.startsWith('<') && value.endsWith('>')) ||
+    value.startsWith('_:') ||
+    expandPrefixedName(value) !== null
+  )
+}
+
+/**
+ * Expands names like `owl:Class` that use one of the well-known prefixes.
+ */
+function expandPrefixedName(value: string): string | null {
+  const match = /^([A-Za-z][\w-]*):([^\s:/]*)$/.exec(value)
+  return match && WELL_KNOWN_PREFIXES[match[1]] !== undefined
+    ? WELL_KNOWN_PREFIXES[match[1]] + match[2]
+    : null
+}
@@ -0,0 +1,50 @@
+import { FilteredGraphWrapper, IGraph, INode } from 'yfiles'
+import { NodeData } from './lib/GraphData'
+
+const hiddenTypes = new Set<string>()
+
+let completeGraph: IGraph | null = null
+let filteredGraph: FilteredGraphWrapper | null = null
+
+/**
+ * Wraps the given graph, so that the nodes of hidden types and their edges are not shown. The
+ * returned graph still provides the folding view of the given graph.
+ */
+export function enableTypeFilter(graph: IGraph): IGraph {
+  completeGraph = graph
+  filteredGraph = new FilteredGraphWrapper(graph, (node: INode) => !isHidden(node))
+  return filteredGraph
+}
+
+/**
+ * Returns the graph with the nodes of all types, for the given graph of the component. Files are
+ * read into and written from this graph, so that hidden nodes are kept.
+ */
+export function getCompleteGraph(graph: IGraph): IGraph {
+  return graph === filteredGraph && completeGraph ? completeGraph : graph
+}
+
+export function getHiddenTypes(): string[] {
+  return Array.from(hiddenTypes)
+}
+
+export function isTypeHidden(type: string): boolean {
+  return hiddenTypes.has(type)
+}
+
+/**
+ * Hides exactly the given types.
+ * @returns The nodes that have been shown again.
+ */
+export function setHiddenTypes(types: string[]): INode[] {
+  const previouslyHidden = completeGraph ? completeGraph.nodes.filter(isHidden).toArray() : []
+  hiddenTypes.clear()
+  types.forEach((type) => hiddenTypes.add(type))
+  filteredGraph?.nodePredicateChanged()
+  return previouslyHidden.filter((node) => !isHidden(node))
+}
+
+function isHidden(node: INode): boolean {
+  const data = node.tag as NodeData | null
+  return !!data && hiddenTypes.has(data.type)
+}